@@ -7,8 +7,13 @@
  *   snapshot  - Take a schema snapshot from a response file or URL
  *   check     - Check a response against a stored snapshot
  *   diff      - Compare two schema versions
+ *   validate  - Validate a response against an OpenAPI specification
+ *   spec-diff - Compare two OpenAPI specifications operation by operation
+ *   har       - Snapshot or check every endpoint recorded in a HAR file
  *   list      - List all monitored endpoints
  *   history   - Show version history for an endpoint
+ *   import    - Import a schema document (e.g., JSON Schema) as a baseline
+ *   export    - Export stored schemas (e.g., as JSON Schema, TypeScript types or Zod validators)
  *   watch     - Watch an endpoint for drift (periodic polling)
  */
 
@@ -18,9 +23,42 @@ import * as path from 'path';
 import { SchemaGuard } from './guard';
 import { inferSchema } from './core/inferrer';
 import { diffSchemas, calculateCompatibilityScore } from './core/differ';
-import { formatReport } from './core/reporter';
-import { autoParse } from './formats';
-import { ReportFormat, DriftReport } from './core/types';
+import { formatReport, formatSpecReport, formatHarReport, formatGraphqlSchemaReport } from './core/reporter';
+import {
+  autoParse,
+  autoParseAll,
+  parseProtobuf,
+  parseAvro,
+  formatForContentType,
+  parseGraphqlOperation,
+  graphqlOperationKey,
+} from './formats';
+import {
+  snapshotToJsonSchema,
+  fromJsonSchema,
+  fromProto,
+  fromAvroSchema,
+  loadAvroSchema,
+  generateOpenApi,
+  isOperationKey,
+  generateTypeScript,
+  generateZod,
+  toAjvSchema,
+} from './convert';
+import { sanitizeKey } from './store/file-store';
+import {
+  ReportFormat,
+  DriftReport,
+  SchemaGuardOptions,
+  SchemaDirection,
+  SchemaSnapshot,
+  SchemaNode,
+  JsonSchema,
+  AvroSchema,
+  InputFormat,
+  XmlOptions,
+  GraphqlOperation,
+} from './core/types';
 
 const program = new Command();
 
@@ -31,19 +69,51 @@ program
 
 // ─── Common Options ─────────────────────────────────────────────────────────
 
-function getGuard(storeDir: string): SchemaGuard {
-  return new SchemaGuard({ store: storeDir, autoSnapshot: true });
+function getGuard(storeDir: string, options: Partial<SchemaGuardOptions> = {}): SchemaGuard {
+  return new SchemaGuard({ store: storeDir, autoSnapshot: true, ...options });
 }
 
-function readResponseInput(fileOrData: string): unknown {
-  // If it looks like a file path, read it
-  if (fs.existsSync(fileOrData)) {
-    const content = fs.readFileSync(fileOrData, 'utf-8');
-    return autoParse(content);
+function readResponseInput(
+  fileOrData: string,
+  format?: string,
+  schemas?: SchemaInput,
+  xml?: XmlOptions
+): unknown {
+  // Binary protobuf payloads are always files
+  if (schemas?.proto) {
+    if (!schemas.message) throw new Error('--proto requires --message (e.g., "accounts.v1.User")');
+    return parseProtobuf(fs.readFileSync(fileOrData), schemas.proto, schemas.message);
   }
+  if (schemas?.avroSchema) {
+    return parseAvro(fs.readFileSync(fileOrData), loadAvroSchema(schemas.avroSchema));
+  }
+
+  return autoParse(readRawInput(fileOrData), parseInputFormat(format), xml);
+}
+
+/**
+ * Read the two sides of a diff. XML documents are normalised together, so a
+ * list holding a single element on one side is still an array.
+ */
+function readResponseInputs(
+  before: string,
+  after: string,
+  format?: string,
+  schemas?: SchemaInput,
+  xml?: XmlOptions
+): unknown[] {
+  if (schemas?.proto || schemas?.avroSchema) {
+    return [before, after].map((input) => readResponseInput(input, format, schemas, xml));
+  }
+  return autoParseAll([readRawInput(before), readRawInput(after)], parseInputFormat(format), xml);
+}
+
+function readRawInput(fileOrData: string): string | Buffer {
+  // If it looks like a file path, read it (as bytes, so binary formats survive)
+  if (fs.existsSync(fileOrData)) return fs.readFileSync(fileOrData);
 
   // Otherwise treat as inline data
-  return autoParse(fileOrData);
+  return fileOrData;
 }
 
 // ─── snapshot Command ───────────────────────────────────────────────────────
@@ -53,13 +123,25 @@ program
   .description('Take a schema snapshot from a response file or inline JSON')
   .requiredOption('-k, --key <key>', 'Endpoint key (e.g., "GET /api/v2/users")')
   .requiredOption('-d, --data <data>', 'Response data (file path or inline JSON)')
+  .option('--input-format <format>', 'Payload format: auto, json, ndjson, xml, yaml, csv, tsv, msgpack, avro', 'auto')
+  .option('--soap', 'Unwrap SOAP envelopes and strip XML namespace prefixes')
+  .option('--xml-array <paths...>', 'XML element paths that are always arrays (e.g., GetUsersResponse.user)')
+  .option('--graphql', 'Track the data, errors and extensions of a GraphQL response separately')
+  .option('--proto <file>', '.proto definition for a binary protobuf payload (with --message)')
+  .option('--message <type>', 'Protobuf message type (e.g., "accounts.v1.User")')
+  .option('--avro-schema <file>', 'Avro writer schema (.avsc) for a payload without a container header')
   .option('-s, --store <dir>', 'Schema store directory', './schemas')
   .option('--version <n>', 'Force a specific version number', parseInt)
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .option('--direction <direction>', 'Schema direction: response or request (request bodies invert compatibility)')
   .action(async (opts) => {
     try {
-      const guard = getGuard(opts.store);
-      const data = readResponseInput(opts.data);
-      const snapshot = await guard.snapshot(opts.key, data, opts.version);
+      const guard = getGuard(opts.store, { ignore: opts.ignore, xml: xmlOptions(opts) });
+      const data = readResponseInput(opts.data, opts.inputFormat, opts, await guard.xmlOptionsFor(opts.key));
+      const snapshot = await guard.snapshot(opts.key, data, opts.version, {
+        direction: parseDirection(opts.direction),
+        graphql: opts.graphql,
+      });
 
       console.log(`✅ Schema snapshot saved`);
       console.log(`   Key:     ${snapshot.key}`);
@@ -79,15 +161,28 @@ program
   .description('Check a response against the stored schema snapshot')
   .requiredOption('-k, --key <key>', 'Endpoint key')
   .requiredOption('-d, --data <data>', 'Response data (file path or inline JSON)')
+  .option('--input-format <format>', 'Payload format: auto, json, ndjson, xml, yaml, csv, tsv, msgpack, avro', 'auto')
+  .option('--soap', 'Unwrap SOAP envelopes and strip XML namespace prefixes')
+  .option('--xml-array <paths...>', 'XML element paths that are always arrays (e.g., GetUsersResponse.user)')
+  .option('--graphql', 'Track the data, errors and extensions of a GraphQL response separately')
+  .option('--proto <file>', '.proto definition for a binary protobuf payload (with --message)')
+  .option('--message <type>', 'Protobuf message type (e.g., "accounts.v1.User")')
+  .option('--avro-schema <file>', 'Avro writer schema (.avsc) for a payload without a container header')
   .option('-s, --store <dir>', 'Schema store directory', './schemas')
   .option('-f, --format <format>', 'Report format: console, json, markdown, html', 'console')
   .option('--fail-on <severity>', 'Exit with code 1 on: breaking, warning, info', 'breaking')
   .option('-o, --output <file>', 'Write report to file instead of stdout')
+  .option('--rules <file>', 'JSON file with severity override rules')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .option('--direction <direction>', 'Schema direction: response or request (request bodies invert compatibility)')
   .action(async (opts) => {
     try {
-      const guard = getGuard(opts.store);
-      const data = readResponseInput(opts.data);
-      const report = await guard.check(opts.key, data);
+      const guard = getGuard(opts.store, { rules: opts.rules, ignore: opts.ignore, xml: xmlOptions(opts) });
+      const data = readResponseInput(opts.data, opts.inputFormat, opts, await guard.xmlOptionsFor(opts.key));
+      const report = await guard.check(opts.key, data, {
+        direction: parseDirection(opts.direction),
+        graphql: opts.graphql,
+      });
 
       const formatted = guard.format(report, opts.format as ReportFormat);
 
@@ -115,36 +210,136 @@ program
 
 program
   .command('diff')
-  .description('Compare two response files or two schema versions')
-  .option('-k, --key <key>', 'Endpoint key (for comparing stored versions)')
+  .description('Compare two response files, two schema versions or two GraphQL schemas')
+  .option('-k, --key <key>', 'Endpoint key (for comparing stored versions or scoping --rules)')
   .option('--before <data>', 'Before response (file path or inline JSON)')
   .option('--after <data>', 'After response (file path or inline JSON)')
+  .option('--input-format <format>', 'Payload format: auto, json, ndjson, xml, yaml, csv, tsv, msgpack, avro', 'auto')
+  .option('--soap', 'Unwrap SOAP envelopes and strip XML namespace prefixes')
+  .option('--xml-array <paths...>', 'XML element paths that are always arrays (e.g., GetUsersResponse.user)')
+  .option('--graphql', 'Track the data, errors and extensions of a GraphQL response separately')
+  .option('--proto <file>', '.proto definition for a binary protobuf payload (with --message)')
+  .option('--message <type>', 'Protobuf message type (e.g., "accounts.v1.User")')
+  .option('--avro-schema <file>', 'Avro writer schema (.avsc) for a payload without a container header')
+  .option('--graphql-schema', 'Diff --before/--after as GraphQL schemas (SDL or introspection JSON)')
   .option('--v1 <n>', 'Before version number', parseInt)
   .option('--v2 <n>', 'After version number', parseInt)
   .option('-s, --store <dir>', 'Schema store directory', './schemas')
   .option('-f, --format <format>', 'Report format: console, json, markdown, html', 'console')
   .option('-o, --output <file>', 'Write report to file')
+  .option('--rules <file>', 'JSON file with severity override rules')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .option('--direction <direction>', 'Schema direction: response or request (request bodies invert compatibility)')
   .action(async (opts) => {
     try {
-      let report: DriftReport;
-
-      if (opts.before && opts.after) {
+      let formatted: string;
+      const direction = parseDirection(opts.direction);
+
+      if (opts.graphqlSchema) {
+        // Schema documents, not responses
+        if (!opts.before || !opts.after) throw new Error('--graphql-schema requires --before and --after');
+        const guard = getGuard(opts.store, { rules: opts.rules, ignore: opts.ignore });
+        const report = guard.diffGraphqlSchema(opts.before, opts.after);
+        formatted = formatGraphqlSchemaReport(report, opts.format as ReportFormat);
+      } else if (opts.before && opts.after) {
         // Direct file/data comparison
-        const guard = getGuard(opts.store);
-        const beforeData = readResponseInput(opts.before);
-        const afterData = readResponseInput(opts.after);
-        report = guard.diffData(beforeData, afterData);
+        const guard = getGuard(opts.store, { rules: opts.rules, ignore: opts.ignore });
+        const [beforeData, afterData] = readResponseInputs(
+          opts.before,
+          opts.after,
+          opts.inputFormat,
+          opts,
+          xmlOptions(opts)
+        );
+        const report = guard.diffData(beforeData, afterData, opts.key, { direction, graphql: opts.graphql });
+        formatted = formatReport(report, opts.format as ReportFormat);
       } else if (opts.key && opts.v1 !== undefined && opts.v2 !== undefined) {
         // Compare stored versions
-        const guard = getGuard(opts.store);
-        report = await guard.diff(opts.key, opts.v1, opts.v2);
+        const guard = getGuard(opts.store, { rules: opts.rules, ignore: opts.ignore });
+        const report = await guard.diff(opts.key, opts.v1, opts.v2, { direction });
+        formatted = formatReport(report, opts.format as ReportFormat);
       } else {
         console.error('❌ Provide either --before/--after or --key with --v1/--v2');
         process.exit(1);
         return;
       }
 
-      const formatted = formatReport(report, opts.format as ReportFormat);
+      if (opts.output) {
+        fs.writeFileSync(opts.output, formatted, 'utf-8');
+        console.log(`📄 Report written to ${opts.output}`);
+      } else {
+        console.log(formatted);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// ─── validate Command ───────────────────────────────────────────────────────
+
+program
+  .command('validate')
+  .description('Validate a response against the schema declared in an OpenAPI 3.x document')
+  .requiredOption('--spec <file>', 'OpenAPI document (JSON or YAML)')
+  .requiredOption('-k, --key <key>', 'Operation (e.g., "GET /users/{id}" or "GET /users/42")')
+  .requiredOption('-d, --data <data>', 'Response data (file path or inline JSON)')
+  .option('--input-format <format>', 'Payload format: auto, json, ndjson, xml, yaml, csv, tsv, msgpack, avro', 'auto')
+  .option('--soap', 'Unwrap SOAP envelopes and strip XML namespace prefixes')
+  .option('--xml-array <paths...>', 'XML element paths that are always arrays (e.g., GetUsersResponse.user)')
+  .option('--status <code>', 'HTTP status code of the response', '200')
+  .option('-f, --format <format>', 'Report format: console, json, markdown, html', 'console')
+  .option('--fail-on <severity>', 'Exit with code 1 on: breaking, warning, info', 'breaking')
+  .option('-o, --output <file>', 'Write report to file instead of stdout')
+  .option('--rules <file>', 'JSON file with severity override rules')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .action(async (opts) => {
+    try {
+      // Validation never reads or writes the store
+      const guard = getGuard('./schemas', { rules: opts.rules, ignore: opts.ignore });
+      const data = readResponseInput(opts.data, opts.inputFormat, opts, xmlOptions(opts));
+      const report = guard.validateOpenApi(opts.spec, opts.key, data, { status: opts.status });
+
+      const formatted = guard.format(report, opts.format as ReportFormat);
+
+      if (opts.output) {
+        fs.writeFileSync(opts.output, formatted, 'utf-8');
+        console.log(`📄 Report written to ${opts.output}`);
+      } else {
+        console.log(formatted);
+      }
+
+      const severityOrder = { info: 0, warning: 1, breaking: 2 };
+      const failThreshold = severityOrder[opts.failOn as keyof typeof severityOrder] ?? 2;
+
+      if (report.changes.some((c) => severityOrder[c.severity] >= failThreshold)) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// ─── spec-diff Command ──────────────────────────────────────────────────────
+
+program
+  .command('spec-diff')
+  .description('Compare two OpenAPI 3.x documents operation by operation')
+  .requiredOption('--before <file>', 'Old OpenAPI document (JSON or YAML)')
+  .requiredOption('--after <file>', 'New OpenAPI document (JSON or YAML)')
+  .option('-f, --format <format>', 'Report format: console, json, markdown, html', 'console')
+  .option('--fail-on <severity>', 'Exit with code 1 on: breaking, warning, info', 'breaking')
+  .option('-o, --output <file>', 'Write report to file instead of stdout')
+  .option('--rules <file>', 'JSON file with severity override rules (keys are operations, e.g. "GET /users/*")')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .action(async (opts) => {
+    try {
+      // Spec diffs never read or write the store
+      const guard = getGuard('./schemas', { rules: opts.rules, ignore: opts.ignore });
+      const report = guard.diffOpenApi(opts.before, opts.after);
+
+      const formatted = formatSpecReport(report, opts.format as ReportFormat);
 
       if (opts.output) {
         fs.writeFileSync(opts.output, formatted, 'utf-8');
@@ -152,6 +347,80 @@ program
       } else {
         console.log(formatted);
       }
+
+      const severityOrder = { info: 0, warning: 1, breaking: 2 };
+      const failThreshold = severityOrder[opts.failOn as keyof typeof severityOrder] ?? 2;
+
+      if (report.operations.some((op) => op.changes.some((c) => severityOrder[c.severity] >= failThreshold))) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// ─── har Command ────────────────────────────────────────────────────────────
+
+const har = program.command('har').description('Snapshot or check every endpoint recorded in a HAR file');
+
+har
+  .command('snapshot')
+  .description('Snapshot the response schema of every endpoint in a HAR file')
+  .argument('<file>', 'HAR file (e.g., exported from browser devtools)')
+  .option('-s, --store <dir>', 'Schema store directory', './schemas')
+  .option('--filter <text>', 'Only use entries whose URL contains this text (e.g., "api.example.com")')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .action(async (file, opts) => {
+    try {
+      const guard = getGuard(opts.store, { ignore: opts.ignore });
+      const { snapshots, skipped } = await guard.snapshotHar(file, { filter: opts.filter });
+
+      console.log(`✅ ${snapshots.length} schema snapshot(s) saved from ${file}`);
+      for (const snapshot of snapshots) {
+        console.log(`   ${snapshot.key} (v${snapshot.version}, ${snapshot.sampleCount} samples)`);
+      }
+      if (skipped.length > 0) {
+        console.log(`   Skipped: ${skipped.length} entr${skipped.length === 1 ? 'y' : 'ies'}`);
+      }
+      console.log(`   Stored:  ${opts.store}`);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+har
+  .command('check')
+  .description('Check every endpoint in a HAR file against its stored schema')
+  .argument('<file>', 'HAR file (e.g., exported from browser devtools)')
+  .option('-s, --store <dir>', 'Schema store directory', './schemas')
+  .option('--filter <text>', 'Only use entries whose URL contains this text (e.g., "api.example.com")')
+  .option('-f, --format <format>', 'Report format: console, json, markdown, html', 'console')
+  .option('--fail-on <severity>', 'Exit with code 1 on: breaking, warning, info', 'breaking')
+  .option('-o, --output <file>', 'Write report to file instead of stdout')
+  .option('--rules <file>', 'JSON file with severity override rules (keys are endpoints, e.g. "GET /users/*")')
+  .option('--ignore <paths...>', 'Field paths to mask before diffing (e.g., debug "**.traceId")')
+  .action(async (file, opts) => {
+    try {
+      const guard = getGuard(opts.store, { rules: opts.rules, ignore: opts.ignore });
+      const report = await guard.checkHar(file, { filter: opts.filter });
+
+      const formatted = formatHarReport(report, opts.format as ReportFormat);
+
+      if (opts.output) {
+        fs.writeFileSync(opts.output, formatted, 'utf-8');
+        console.log(`📄 Report written to ${opts.output}`);
+      } else {
+        console.log(formatted);
+      }
+
+      const severityOrder = { info: 0, warning: 1, breaking: 2 };
+      const failThreshold = severityOrder[opts.failOn as keyof typeof severityOrder] ?? 2;
+
+      if (report.endpoints.some((e) => e.changes.some((c) => severityOrder[c.severity] >= failThreshold))) {
+        process.exit(1);
+      }
     } catch (error) {
       console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
@@ -178,7 +447,9 @@ program
       for (const key of keys) {
         const versions = await guard.listVersions(key);
         const latest = versions[versions.length - 1];
+        const query = latest && querySummary(latest);
         console.log(`  • ${key}`);
+        if (query) console.log(`    Query: ${query}`);
         console.log(`    Latest: v${latest?.version || '?'} (${latest?.timestamp || 'unknown'})`);
         console.log(`    Samples: ${latest?.sampleCount || '?'}`);
         console.log('');
@@ -209,6 +480,139 @@ program
       console.log(`📜 Version history for "${opts.key}":\n`);
       for (const v of versions) {
         console.log(`  v${v.version} — ${v.timestamp} (${v.sampleCount} samples)`);
+        // The query changes as fields are selected or dropped
+        const query = querySummary(v);
+        if (query) console.log(`    Query: ${query}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// ─── import Command ─────────────────────────────────────────────────────────
+
+program
+  .command('import')
+  .description('Import a schema document as the baseline snapshot for a key')
+  .requiredOption('--from <format>', 'Source format: jsonschema, proto, avro')
+  .requiredOption('-i, --input <file>', 'Schema document to import (.avsc or .avro container for avro)')
+  .option('-k, --key <key>', 'Endpoint key (default: the document title, message type or record name)')
+  .option('--message <type>', 'Message type to import (proto)')
+  .option('-s, --store <dir>', 'Schema store directory', './schemas')
+  .option('--direction <direction>', 'Schema direction: response or request (request bodies invert compatibility)')
+  .action(async (opts) => {
+    try {
+      let schema: SchemaNode;
+      let key: string;
+
+      if (opts.from === 'jsonschema') {
+        const doc = JSON.parse(fs.readFileSync(opts.input, 'utf-8')) as JsonSchema;
+        schema = fromJsonSchema(doc);
+        key = opts.key ?? doc.title;
+        if (!key) throw new Error('Provide --key (the document has no "title")');
+      } else if (opts.from === 'proto') {
+        if (!opts.message) throw new Error('Provide --message (e.g., "accounts.v1.User")');
+        schema = fromProto(opts.input, opts.message);
+        key = opts.key ?? opts.message;
+      } else if (opts.from === 'avro') {
+        const avroSchema = loadAvroSchema(opts.input);
+        schema = fromAvroSchema(avroSchema);
+        key = opts.key ?? avroRecordName(avroSchema);
+        if (!key) throw new Error('Provide --key (the schema is not a named record)');
+      } else {
+        throw new Error(`Unsupported import format "${opts.from}" (expected: jsonschema, proto, avro)`);
+      }
+
+      const guard = getGuard(opts.store);
+      const snapshot = await guard.importSchema(
+        key,
+        schema,
+        { format: opts.from, location: path.resolve(opts.input) },
+        { direction: parseDirection(opts.direction) }
+      );
+
+      console.log(`✅ Schema imported`);
+      console.log(`   Key:     ${snapshot.key}`);
+      console.log(`   Version: v${snapshot.version}`);
+      console.log(`   Source:  ${opts.input}`);
+      console.log(`   Stored:  ${opts.store}`);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  });
+
+// ─── export Command ─────────────────────────────────────────────────────────
+
+const EXPORT_FORMATS = ['jsonschema', 'ajv', 'openapi', 'typescript', 'zod'];
+
+program
+  .command('export')
+  .description('Export stored schemas to another format')
+  .option(
+    '-f, --format <format>',
+    'Export format: jsonschema or ajv (one file per key), openapi, typescript, zod',
+    'jsonschema'
+  )
+  .option('-k, --key <key>', 'Endpoint key to export (default: all keys)')
+  .option('-s, --store <dir>', 'Schema store directory', './schemas')
+  .option('-o, --output <dir>', 'Output directory', '.')
+  .option('--title <title>', 'Document title (openapi)', 'Generated API')
+  .option('--brand-formats', 'Brand formatted strings, e.g. Formatted<string, \'uuid\'> (typescript)')
+  .action(async (opts) => {
+    try {
+      if (!EXPORT_FORMATS.includes(opts.format)) {
+        throw new Error(`Unsupported export format "${opts.format}" (expected: ${EXPORT_FORMATS.join(', ')})`);
+      }
+
+      const store = getGuard(opts.store).getStore();
+      const keys: string[] = opts.key ? [opts.key] : await store.listKeys();
+      if (keys.length === 0) {
+        console.log('📭 No schemas stored yet.');
+        return;
+      }
+
+      const snapshots: SchemaSnapshot[] = [];
+      for (const key of keys) {
+        const snapshot = await store.load(key);
+        if (!snapshot) throw new Error(`No snapshot found for key "${key}"`);
+        snapshots.push(snapshot);
+      }
+
+      fs.mkdirSync(opts.output, { recursive: true });
+
+      if (opts.format === 'openapi') {
+        const doc = generateOpenApi(snapshots, { title: opts.title });
+        const file = path.join(opts.output, 'openapi.json');
+        fs.writeFileSync(file, JSON.stringify(doc, null, 2), 'utf-8');
+
+        const skipped = keys.filter((key) => !isOperationKey(key));
+        console.log(`📄 OpenAPI document (${keys.length - skipped.length} operations) → ${file}`);
+        for (const key of skipped) console.log(`   ⚠️  Skipped "${key}" (not a "METHOD /path" key)`);
+        return;
+      }
+
+      if (opts.format === 'typescript') {
+        const file = path.join(opts.output, 'api-types.ts');
+        fs.writeFileSync(file, generateTypeScript(snapshots, { brandFormats: opts.brandFormats }), 'utf-8');
+        console.log(`📄 TypeScript types (${snapshots.length} keys) → ${file}`);
+        return;
+      }
+
+      if (opts.format === 'zod') {
+        const file = path.join(opts.output, 'api-schemas.ts');
+        fs.writeFileSync(file, generateZod(snapshots), 'utf-8');
+        console.log(`📄 Zod schemas (${snapshots.length} keys) → ${file}`);
+        return;
+      }
+
+      for (const snapshot of snapshots) {
+        const ajv = opts.format === 'ajv';
+        const file = path.join(opts.output, `${sanitizeKey(snapshot.key)}.${ajv ? 'ajv' : 'schema'}.json`);
+        const schema = ajv ? toAjvSchema(snapshot.schema) : snapshotToJsonSchema(snapshot);
+        fs.writeFileSync(file, JSON.stringify(schema, null, 2), 'utf-8');
+        console.log(`📄 ${snapshot.key} → ${file}`);
       }
     } catch (error) {
       console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
@@ -222,7 +626,7 @@ program
   .command('watch')
   .description('Periodically poll an API endpoint and alert on schema drift')
   .requiredOption('-u, --url <url>', 'URL to poll')
-  .option('-k, --key <key>', 'Endpoint key (defaults to URL)')
+  .option('-k, --key <key>', 'Endpoint key (defaults to URL, or the operation with --graphql and a request body)')
   .option('-H, --header <headers...>', 'HTTP headers (format: "Key: Value")')
   .option('-m, --method <method>', 'HTTP method', 'GET')
   .option('-b, --body <body>', 'Request body')
@@ -230,8 +634,20 @@ program
   .option('-s, --store <dir>', 'Schema store directory', './schemas')
   .option('--alert-webhook <url>', 'Webhook URL for drift alerts')
   .option('--fail-on <severity>', 'Alert severity threshold', 'warning')
+  .option('--input-format <format>', 'Payload format: auto, json, ndjson, xml, yaml, csv, tsv, msgpack, avro', 'auto')
+  .option('--soap', 'Unwrap SOAP envelopes and strip XML namespace prefixes')
+  .option('--xml-array <paths...>', 'XML element paths that are always arrays (e.g., GetUsersResponse.user)')
+  .option('--graphql', 'Track the data, errors and extensions of a GraphQL response separately')
   .action(async (opts) => {
-    const key = opts.key || opts.url;
+    // Every operation is POSTed to the same URL, so key by operation instead
+    let operation: GraphqlOperation | undefined;
+    try {
+      if (opts.graphql && opts.body && !opts.key) operation = parseGraphqlOperation(opts.body);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+    const key = opts.key || (operation ? graphqlOperationKey(operation) : opts.url);
     const intervalMs = parseInterval(opts.interval);
 
     const headers: Record<string, string> = {};
@@ -249,7 +665,7 @@ program
     if (opts.alertWebhook) console.log(`   Webhook: ${opts.alertWebhook}`);
     console.log('');
 
-    const guard = getGuard(opts.store);
+    const guard = getGuard(opts.store, { xml: xmlOptions(opts) });
 
     const poll = async () => {
       try {
@@ -260,10 +676,17 @@ program
         if (opts.body) fetchOptions.body = opts.body;
 
         const res = await fetch(opts.url, fetchOptions);
-        const text = await res.text();
-        const data = autoParse(text);
+        const body = Buffer.from(await res.arrayBuffer());
+        const inputFormat = parseInputFormat(opts.inputFormat);
+        const data = autoParse(
+          body,
+          inputFormat === 'auto' ? formatForContentType(res.headers.get('content-type')) : inputFormat,
+          await guard.xmlOptionsFor(key)
+        );
 
-        const report = await guard.check(key, data);
+        const report = operation
+          ? await guard.checkGraphql(operation, data)
+          : await guard.check(key, data, { graphql: opts.graphql });
         const formatted = guard.format(report, 'console');
         console.log(`[${new Date().toISOString()}]`);
         console.log(formatted);
@@ -288,6 +711,50 @@ program
 
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+/** `--proto` / `--message` / `--avro-schema` options of commands that read payloads */
+interface SchemaInput {
+  proto?: string;
+  message?: string;
+  avroSchema?: string;
+}
+
+const INPUT_FORMATS: InputFormat[] = ['auto', 'json', 'ndjson', 'xml', 'yaml', 'csv', 'tsv', 'msgpack', 'avro'];
+
+function parseDirection(input: string | undefined): SchemaDirection | undefined {
+  if (input === undefined) return undefined;
+  if (input !== 'response' && input !== 'request') {
+    throw new Error(`Invalid direction "${input}" (expected: response, request)`);
+  }
+  return input;
+}
+
+function parseInputFormat(input: string | undefined): InputFormat | undefined {
+  if (input === undefined) return undefined;
+  if (!INPUT_FORMATS.includes(input as InputFormat)) {
+    throw new Error(`Invalid input format "${input}" (expected: ${INPUT_FORMATS.join(', ')})`);
+  }
+  return input as InputFormat;
+}
+
+/** `--soap` / `--xml-array` options; XML is only normalised when one is given */
+function xmlOptions(opts: { soap?: boolean; xmlArray?: string[] }): XmlOptions | undefined {
+  if (!opts.soap && !opts.xmlArray) return undefined;
+  return { soap: opts.soap, arrays: opts.xmlArray };
+}
+
+function avroRecordName(schema: AvroSchema): string | undefined {
+  if (typeof schema !== 'object' || Array.isArray(schema) || !schema.name) return undefined;
+  return schema.namespace && !schema.name.includes('.') ? `${schema.namespace}.${schema.name}` : schema.name;
+}
+
+/** One-line query of a snapshot keyed by GraphQL operation, for `list` and `history` */
+function querySummary(snapshot: SchemaSnapshot): string | undefined {
+  const query = snapshot.metadata?.query;
+  if (typeof query !== 'string') return undefined;
+  const line = query.replace(/\s+/g, ' ').trim();
+  return line.length > 100 ? `${line.slice(0, 97)}...` : line;
+}
+
 function parseInterval(input: string): number {
   const match = input.match(/^(\d+)(s|m|h|ms)?$/);
   if (!match) return 3600000; // default 1h
@@ -0,0 +1,132 @@
+/**
+ * Avro Schema Converter
+ *
+ * Converts Avro schemas to SchemaNodes describing the records `parseAvro`
+ * decodes, so schema evolution (a new `.avsc` revision, or the writer schema
+ * of a newer container file) can be diffed with the usual severity model.
+ */
+
+import * as fs from 'fs';
+import { SchemaNode, AvroSchema, AvroComplexSchema } from '../core/types';
+import { avroType, avroContainerSchema, isAvroContainer } from '../formats/avro';
+
+const PRIMITIVES: Record<string, SchemaNode> = {
+  null: { type: 'null', nullable: true },
+  boolean: { type: 'boolean', nullable: false },
+  int: { type: 'number', nullable: false, format: 'integer' },
+  long: { type: 'number', nullable: false, format: 'integer' },
+  float: { type: 'number', nullable: false },
+  double: { type: 'number', nullable: false },
+  bytes: { type: 'string', nullable: false },
+  string: { type: 'string', nullable: false },
+};
+
+/**
+ * Read an Avro schema from a `.avsc` file, or the writer schema from the
+ * header of an Object Container File.
+ */
+export function loadAvroSchema(filePath: string): AvroSchema {
+  const content = fs.readFileSync(filePath);
+  if (isAvroContainer(content)) return avroContainerSchema(content);
+
+  try {
+    return JSON.parse(content.toString('utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse Avro schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Convert an Avro schema to a SchemaNode. Record fields are always present;
+ * `["null", T]` unions become nullable, other unions `oneOf`.
+ */
+export function fromAvroSchema(schema: AvroSchema): SchemaNode {
+  avroType(schema); // validate before walking
+  return new Converter().convert(schema, undefined, []);
+}
+
+// ─── Conversion ─────────────────────────────────────────────────────────────
+
+/**
+ * Walks a schema, remembering named types (records, enums, fixed) so later
+ * references by name resolve to their definition.
+ */
+class Converter {
+  private named = new Map<string, { schema: AvroComplexSchema; namespace?: string }>();
+
+  convert(schema: AvroSchema, namespace: string | undefined, seen: string[]): SchemaNode {
+    if (typeof schema === 'string') return this.reference(schema, namespace, seen);
+    if (Array.isArray(schema)) return this.union(schema, namespace, seen);
+
+    // `{ "type": { ... } }` wraps another schema
+    if (typeof schema.type !== 'string') return this.convert(schema.type, namespace, seen);
+
+    switch (schema.type) {
+      case 'record':
+      case 'error':
+        return this.record(schema, namespace, seen);
+      case 'enum':
+        this.define(schema, namespace);
+        return { type: 'string', nullable: false, enum: [...(schema.symbols ?? [])] };
+      case 'fixed':
+        this.define(schema, namespace);
+        return { type: 'string', nullable: false };
+      case 'array':
+        return { type: 'array', nullable: false, items: this.convert(schema.items!, namespace, seen) };
+      case 'map':
+        return {
+          type: 'object',
+          nullable: false,
+          additionalProperties: this.convert(schema.values!, namespace, seen),
+        };
+      default: {
+        const node = this.reference(schema.type, namespace, seen);
+        return schema.logicalType === 'uuid' && node.type === 'string' ? { ...node, format: 'uuid' } : node;
+      }
+    }
+  }
+
+  private record(schema: AvroComplexSchema, namespace: string | undefined, seen: string[]): SchemaNode {
+    const { fullName, namespace: inner } = this.define(schema, namespace);
+    const path = [...seen, fullName];
+    const fields = schema.fields ?? [];
+
+    return {
+      type: 'object',
+      nullable: false,
+      properties: Object.fromEntries(fields.map((field) => [field.name, this.convert(field.type, inner, path)])),
+      required: fields.map((field) => field.name),
+    };
+  }
+
+  private union(branches: AvroSchema[], namespace: string | undefined, seen: string[]): SchemaNode {
+    const members = branches.map((branch) => this.convert(branch, namespace, seen));
+    const nonNull = members.filter((m) => m.type !== 'null');
+    const nullable = nonNull.length < members.length;
+
+    if (nonNull.length === 0) return { type: 'null', nullable: true };
+    if (nonNull.length === 1) return { ...nonNull[0], nullable };
+    return { type: 'unknown', nullable, oneOf: nonNull.map((m) => ({ ...m, nullable: false })) };
+  }
+
+  private reference(name: string, namespace: string | undefined, seen: string[]): SchemaNode {
+    if (PRIMITIVES[name]) return { ...PRIMITIVES[name] };
+
+    const fullName = name.includes('.') || !namespace ? name : `${namespace}.${name}`;
+    // Recursive records stop at the first repeat
+    if (seen.includes(fullName)) return { type: 'object', nullable: false };
+
+    const definition = this.named.get(fullName) ?? this.named.get(name);
+    if (!definition) throw new Error(`Unknown Avro type "${name}"`);
+    return this.convert(definition.schema, definition.namespace, seen);
+  }
+
+  private define(schema: AvroComplexSchema, namespace: string | undefined): { fullName: string; namespace?: string } {
+    const name = schema.name ?? '';
+    const inner = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : schema.namespace ?? namespace;
+    const fullName = name.includes('.') || !inner ? name : `${inner}.${name}`;
+
+    this.named.set(fullName, { schema, namespace: inner });
+    return { fullName, namespace: inner };
+  }
+}
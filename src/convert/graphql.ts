@@ -0,0 +1,258 @@
+/**
+ * GraphQL Schema Converter
+ *
+ * Converts a GraphQL schema (SDL or an introspection result) to one
+ * SchemaNode per type, so two revisions of a schema can be diffed type by
+ * type before any query runs. Field arguments get their own node
+ * (`Query.user(args)`), compared like request bodies.
+ */
+
+import * as fs from 'fs';
+import {
+  GraphQLSchema,
+  GraphQLType,
+  GraphQLArgument,
+  GraphQLInputField,
+  IntrospectionQuery,
+  buildSchema,
+  buildClientSchema,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+} from 'graphql';
+import { SchemaNode, DriftChange, DiffOptions, OperationDiff } from '../core/types';
+import { diffSchemas, severityFor } from '../core/differ';
+
+const SCALARS: Record<string, Omit<SchemaNode, 'nullable'>> = {
+  String: { type: 'string' },
+  ID: { type: 'string' },
+  Int: { type: 'number', format: 'integer' },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+};
+
+/** A converted type (or field's arguments) and the names of the types its fields refer to */
+interface GraphqlTypeSchema {
+  schema: SchemaNode;
+  /** Inputs and arguments are sent by clients, so compatibility runs the other way */
+  input: boolean;
+  refs: Record<string, string>;
+}
+
+const ARGUMENTS_SUFFIX = '(args)';
+
+const NO_ARGUMENTS: SchemaNode = { type: 'object', nullable: false, properties: {}, required: [] };
+
+// ─── Loading ────────────────────────────────────────────────────────────────
+
+/**
+ * Build a schema from SDL text or an introspection result (`{ __schema }`,
+ * optionally wrapped in a `{ data }` response).
+ */
+export function parseGraphqlSchema(
+  source: string | IntrospectionQuery | { data: IntrospectionQuery }
+): GraphQLSchema {
+  try {
+    if (typeof source === 'string') {
+      const trimmed = source.trim();
+      return trimmed.startsWith('{') ? parseGraphqlSchema(JSON.parse(trimmed)) : buildSchema(trimmed);
+    }
+    return buildClientSchema('data' in source ? source.data : source);
+  } catch (error) {
+    throw new Error(`Failed to parse GraphQL schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read a schema from an SDL file (`.graphql`, `.gql`) or an introspection
+ * JSON file.
+ */
+export function loadGraphqlSchema(filePath: string): GraphQLSchema {
+  return parseGraphqlSchema(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// ─── Conversion ─────────────────────────────────────────────────────────────
+
+/**
+ * Convert every object, interface, input object and enum type to a
+ * SchemaNode keyed by type name, plus one node per field with arguments
+ * (`Query.user(args)`). `!` makes a node non-null. Fields that refer to
+ * another object type are plain objects; that type has its own node.
+ */
+export function fromGraphqlSchema(schema: GraphQLSchema): Record<string, SchemaNode> {
+  return Object.fromEntries([...convertTypes(schema)].map(([key, type]) => [key, type.schema]));
+}
+
+function convertTypes(schema: GraphQLSchema): Map<string, GraphqlTypeSchema> {
+  const types = new Map<string, GraphqlTypeSchema>();
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (type.name.startsWith('__')) continue;
+
+    if (isObjectType(type) || isInterfaceType(type)) {
+      const fields = Object.values(type.getFields());
+      types.set(type.name, {
+        schema: {
+          type: 'object',
+          nullable: false,
+          properties: Object.fromEntries(fields.map((field) => [field.name, typeSchema(field.type)])),
+          // Every selected field is in the response, even when null
+          required: fields.map((field) => field.name),
+        },
+        input: false,
+        refs: Object.fromEntries(fields.map((field) => [field.name, getNamedType(field.type).name])),
+      });
+
+      for (const field of fields.filter((f) => f.args.length > 0)) {
+        types.set(`${type.name}.${field.name}${ARGUMENTS_SUFFIX}`, inputSchema(field.args));
+      }
+    } else if (isInputObjectType(type)) {
+      types.set(type.name, inputSchema(Object.values(type.getFields())));
+    } else if (isEnumType(type)) {
+      types.set(type.name, {
+        schema: { type: 'string', nullable: false, enum: type.getValues().map((value) => value.name) },
+        input: false,
+        refs: {},
+      });
+    }
+  }
+
+  return types;
+}
+
+/**
+ * Arguments and input fields may be left out when nullable or defaulted.
+ */
+function inputSchema(fields: ReadonlyArray<GraphQLArgument | GraphQLInputField>): GraphqlTypeSchema {
+  return {
+    schema: {
+      type: 'object',
+      nullable: false,
+      properties: Object.fromEntries(fields.map((field) => [field.name, typeSchema(field.type)])),
+      required: fields
+        .filter((field) => isNonNullType(field.type) && field.defaultValue === undefined)
+        .map((field) => field.name),
+    },
+    input: true,
+    refs: Object.fromEntries(fields.map((field) => [field.name, getNamedType(field.type).name])),
+  };
+}
+
+function typeSchema(type: GraphQLType, nullable = true): SchemaNode {
+  if (isNonNullType(type)) return typeSchema(type.ofType, false);
+  if (isListType(type)) return { type: 'array', nullable, items: typeSchema(type.ofType) };
+  // Enum values are diffed once, on the enum's own node
+  if (isEnumType(type)) return { type: 'string', nullable };
+  if (isScalarType(type)) return { ...(SCALARS[type.name] ?? { type: 'unknown' }), nullable };
+  return { type: 'object', nullable };
+}
+
+// ─── Diffing ────────────────────────────────────────────────────────────────
+
+/**
+ * Compare two schemas type by type. Removed fields, arguments and enum values
+ * are breaking, and so is a field whose type refers to a different named type.
+ * Output fields break when they become nullable; arguments and input fields
+ * break when they become non-null or a new one is required.
+ *
+ * @param prepare - Applied to every schema before diffing (e.g. to mask fields)
+ */
+export function diffGraphqlTypes(
+  before: GraphQLSchema,
+  after: GraphQLSchema,
+  options: DiffOptions = {},
+  prepare: (node: SchemaNode) => SchemaNode = (node) => node
+): OperationDiff[] {
+  const oldTypes = convertTypes(before);
+  const newTypes = convertTypes(after);
+  const diffs: OperationDiff[] = [];
+
+  for (const key of new Set([...oldTypes.keys(), ...newTypes.keys()])) {
+    const previous = oldTypes.get(key);
+    const current = newTypes.get(key);
+
+    // A field gaining or losing its arguments is diffed against no arguments
+    if (!previous && !isArguments(key)) {
+      diffs.push({ key, changes: [typeChange('type_added', key, options)] });
+    } else if (!current && !isArguments(key)) {
+      diffs.push({ key, changes: [typeChange('type_removed', key, options)] });
+    } else {
+      diffs.push({ key, changes: diffTypes(previous, current, options, prepare) });
+    }
+  }
+
+  return diffs.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function diffTypes(
+  previous: GraphqlTypeSchema | undefined,
+  current: GraphqlTypeSchema | undefined,
+  options: DiffOptions,
+  prepare: (node: SchemaNode) => SchemaNode
+): DriftChange[] {
+  const input = (current ?? previous)!.input;
+  const diffOptions: DiffOptions = { ...options, direction: input ? 'request' : 'response', exhaustiveEnums: true };
+
+  const changes = diffSchemas(
+    prepare(previous?.schema ?? NO_ARGUMENTS),
+    prepare(current?.schema ?? NO_ARGUMENTS),
+    '',
+    diffOptions
+  ).map((change) => graphqlSeverity(change, input));
+
+  // Same shape, different type (e.g. `User` → `Account`, `ID` → `String`)
+  for (const [field, name] of Object.entries(previous?.refs ?? {})) {
+    const next = current?.refs[field];
+    if (next === undefined || next === name) continue;
+    if (changes.some((c) => c.path === field && (c.type === 'type_changed' || c.type === 'nesting_changed'))) continue;
+    changes.push({
+      type: 'type_changed',
+      severity: severityFor('type_changed', diffOptions),
+      path: field,
+      message: `Type changed at "${field}" (${name} → ${next})`,
+      before: name,
+      after: next,
+    });
+  }
+
+  // `id: ID` → `id: ID!` is one change, not a nullable and a required change
+  const nullablePaths = new Set(changes.filter((c) => c.type === 'nullable_changed').map((c) => c.path));
+  return changes.filter((c) => c.type !== 'required_changed' || !nullablePaths.has(c.path));
+}
+
+/**
+ * Clients select fields by name and send enum values back, so anything that
+ * disappears breaks them. A field becoming nullable breaks readers; an input
+ * becoming non-null breaks senders.
+ */
+function graphqlSeverity(change: DriftChange, input: boolean): DriftChange {
+  switch (change.type) {
+    case 'field_removed':
+    case 'field_renamed':
+    case 'field_moved':
+    case 'enum_value_removed':
+      return { ...change, severity: 'breaking' };
+    case 'nullable_changed':
+      return { ...change, severity: change.after === (input ? 'non-null' : 'nullable') ? 'breaking' : 'info' };
+    default:
+      return change;
+  }
+}
+
+function isArguments(key: string): boolean {
+  return key.endsWith(ARGUMENTS_SUFFIX);
+}
+
+function typeChange(type: 'type_added' | 'type_removed', key: string, options: DiffOptions): DriftChange {
+  return {
+    type,
+    severity: severityFor(type, options),
+    path: '(type)',
+    message: `Type "${key}" ${type === 'type_added' ? 'added' : 'removed'}`,
+  };
+}
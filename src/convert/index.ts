@@ -0,0 +1,29 @@
+/**
+ * Schema Converters — Barrel export
+ */
+
+export {
+  toJsonSchema,
+  snapshotToJsonSchema,
+  toAjvSchema,
+  fromJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  AJV_SCHEMA_DIALECT,
+} from './jsonschema';
+export {
+  parseOpenApi,
+  loadOpenApi,
+  parseOperationKey,
+  isOperationKey,
+  findOperation,
+  openApiResponseSchema,
+  toOpenApiPath,
+  generateOpenApi,
+  openApiFromStore,
+  diffOpenApiOperations,
+} from './openapi';
+export { typeNameForKey, toTypeScript, generateTypeScript } from './typescript';
+export { toZod, generateZod } from './zod';
+export { fromProto } from './protobuf';
+export { fromAvroSchema, loadAvroSchema } from './avro';
+export { parseGraphqlSchema, loadGraphqlSchema, fromGraphqlSchema, diffGraphqlTypes } from './graphql';
@@ -0,0 +1,323 @@
+/**
+ * JSON Schema Converter
+ *
+ * Converts inferred SchemaNodes and stored snapshots to JSON Schema
+ * (draft 2020-12) so validators, contract tests and doc portals can use them,
+ * and imports hand-written JSON Schemas as declared baselines.
+ */
+
+import { SchemaNode, SchemaSnapshot, FormatHint, JsonSchema, JsonSchemaType, OpenApiDocument } from '../core/types';
+import { collapseUnion } from '../core/inferrer';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Dialect of Ajv's default export (2020-12 needs `ajv/dist/2020`) */
+export const AJV_SCHEMA_DIALECT = 'http://json-schema.org/draft-07/schema#';
+
+/** Format hints with a standard JSON Schema `format` equivalent */
+const FORMAT_MAP: Partial<Record<NonNullable<FormatHint>, string>> = {
+  'iso-date': 'date',
+  'iso-datetime': 'date-time',
+  uuid: 'uuid',
+  email: 'email',
+  url: 'uri',
+  uri: 'uri',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+/** JSON Schema formats understood on import */
+const FORMAT_IMPORT_MAP: Record<string, FormatHint> = {
+  date: 'iso-date',
+  'date-time': 'iso-datetime',
+  uuid: 'uuid',
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  'uri-reference': 'uri',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+// ─── Export ─────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a SchemaNode to JSON Schema. Nullability becomes a type array
+ * (`["string", "null"]`), maps become `additionalProperties` and
+ * discriminated unions a `oneOf` whose variants pin the discriminator with `const`.
+ */
+export function toJsonSchema(node: SchemaNode): JsonSchema {
+  if (node.oneOf) {
+    return unionToJsonSchema(node);
+  }
+
+  if (node.type === 'unknown') {
+    return {};
+  }
+
+  const result: JsonSchema = { type: jsonType(node) };
+
+  const format = node.format ? FORMAT_MAP[node.format] : undefined;
+  if (format) result.format = format;
+
+  if (node.type === 'object') {
+    if (node.properties) {
+      result.properties = Object.fromEntries(
+        Object.entries(node.properties).map(([key, child]) => [key, toJsonSchema(child)])
+      );
+      if (node.required && node.required.length > 0) {
+        result.required = [...node.required];
+      }
+    }
+    if (node.additionalProperties) {
+      result.additionalProperties = toJsonSchema(node.additionalProperties);
+    }
+  }
+
+  if (node.type === 'array' && node.items) {
+    result.items = toJsonSchema(node.items);
+  }
+
+  return result;
+}
+
+/**
+ * Convert a stored snapshot to a standalone JSON Schema document.
+ */
+export function snapshotToJsonSchema(snapshot: SchemaSnapshot): JsonSchema {
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: snapshot.key,
+    description: `Inferred from ${snapshot.sampleCount} sample(s) (v${snapshot.version}, ${snapshot.timestamp})`,
+    ...toJsonSchema(snapshot.schema),
+  };
+}
+
+/**
+ * Convert a SchemaNode to a draft-07 document that Ajv's default export
+ * compiles as-is (add `ajv-formats` to enforce `format`).
+ */
+export function toAjvSchema(node: SchemaNode): JsonSchema {
+  return { $schema: AJV_SCHEMA_DIALECT, ...toJsonSchema(node) };
+}
+
+// ─── Import ─────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a JSON Schema document to a SchemaNode. Resolves local `$ref`s
+ * (`#/$defs/...`, `#/definitions/...`), flattens `allOf`, turns `anyOf`/`oneOf`
+ * into unions (discriminated when every member pins a property with `const`)
+ * and reads nullability from type arrays or OpenAPI's `nullable: true`.
+ * Pass `root` when the schema is embedded in a larger document (e.g. an
+ * OpenAPI spec whose `$ref`s point into `#/components/schemas`).
+ */
+export function fromJsonSchema(doc: JsonSchema, root: JsonSchema | OpenApiDocument = doc): SchemaNode {
+  return importNode(doc, root, []);
+}
+
+function importNode(schema: JsonSchema | boolean, root: JsonSchema | OpenApiDocument, refs: string[]): SchemaNode {
+  if (typeof schema === 'boolean') {
+    return { type: 'unknown', nullable: false };
+  }
+
+  if (schema.$ref !== undefined) {
+    const { $ref, ...siblings } = schema;
+    // Recursive structures stop at the first repeat
+    if (refs.includes($ref)) return { type: 'object', nullable: false };
+    const target = importNode(resolveRef(root, $ref), root, [...refs, $ref]);
+    return Object.keys(siblings).length > 0
+      ? mergeAllOf([target, importNode(siblings, root, refs)])
+      : target;
+  }
+
+  if (schema.allOf) {
+    const { allOf, ...rest } = schema;
+    const members = allOf.map((member) => importNode(member, root, refs));
+    if (hasKeywords(rest)) members.unshift(importNode(rest, root, refs));
+    return mergeAllOf(members);
+  }
+
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (alternatives) {
+    const members = alternatives.map((member) => importNode(member, root, refs));
+    const discriminator = (schema.discriminator as { propertyName?: string } | undefined)?.propertyName;
+    return importUnion(members, schema.nullable === true, discriminator);
+  }
+
+  const declared = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  const nullable = declared.includes('null') || schema.nullable === true;
+  const types = declared.filter((t) => t !== 'null');
+
+  if (types.length > 1) {
+    const members = types.map((type) => importNode({ ...schema, type }, root, refs));
+    return importUnion(members, nullable);
+  }
+
+  const type = types[0] ?? impliedType(schema, declared);
+  const node: SchemaNode = { type: type === 'integer' ? 'number' : type, nullable };
+
+  if (type === 'integer') node.format = 'integer';
+  const format = typeof schema.format === 'string' ? FORMAT_IMPORT_MAP[schema.format] : undefined;
+  if (format && type === 'string') node.format = format;
+
+  const values = schema.const !== undefined ? [schema.const] : schema.enum;
+  const enumValues = values?.filter((v): v is string | number => typeof v === 'string' || typeof v === 'number');
+  if (enumValues && enumValues.length > 0) node.enum = enumValues;
+
+  if (type === 'object') {
+    const additional = schema.additionalProperties;
+    if (schema.properties) {
+      node.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, child]) => [key, importNode(child, root, refs)])
+      );
+      node.required = (schema.required ?? []).filter((key) => key in node.properties!);
+    } else if (additional && typeof additional === 'object') {
+      node.additionalProperties = importNode(additional, root, refs);
+    }
+  }
+
+  if (type === 'array' && schema.items) {
+    node.items = importNode(schema.items, root, refs);
+  }
+
+  return node;
+}
+
+/**
+ * Resolve a local JSON pointer such as `#/$defs/Address`.
+ */
+function resolveRef(root: JsonSchema | OpenApiDocument, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref "${ref}" (only local references like "#/$defs/Name" are supported)`);
+  }
+
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = (target as Record<string, unknown> | undefined)?.[key];
+  }
+
+  if (target === undefined || target === null || (typeof target !== 'object' && typeof target !== 'boolean')) {
+    throw new Error(`Unresolvable $ref "${ref}"`);
+  }
+  return target as JsonSchema;
+}
+
+/**
+ * Type implied by keywords when `type` is omitted.
+ */
+function impliedType(schema: JsonSchema, declared: JsonSchemaType[]): SchemaNode['type'] {
+  if (declared.includes('null')) return 'null';
+  if (schema.properties || schema.additionalProperties !== undefined) return 'object';
+  if (schema.items) return 'array';
+
+  const value = schema.const ?? schema.enum?.[0];
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  return 'unknown';
+}
+
+/**
+ * Combine `allOf` members into one object: properties and required lists are
+ * unioned, and the result is nullable only if every member allows null.
+ */
+function mergeAllOf(members: SchemaNode[]): SchemaNode {
+  const typed = members.filter((m) => m.type !== 'unknown');
+  if (typed.length === 0) return { type: 'unknown', nullable: members.every((m) => m.nullable) };
+  if (!typed.every((m) => m.type === 'object')) {
+    return { ...typed[0], nullable: typed.every((m) => m.nullable) };
+  }
+
+  const properties: Record<string, SchemaNode> = {};
+  const required = new Set<string>();
+  let additionalProperties: SchemaNode | undefined;
+
+  for (const member of typed) {
+    for (const [key, child] of Object.entries(member.properties ?? {})) {
+      properties[key] = properties[key] ? mergeAllOf([properties[key], child]) : child;
+    }
+    member.required?.forEach((key) => required.add(key));
+    additionalProperties = additionalProperties ?? member.additionalProperties;
+  }
+
+  const merged: SchemaNode = { type: 'object', nullable: typed.every((m) => m.nullable) };
+  if (Object.keys(properties).length > 0) {
+    merged.properties = properties;
+    merged.required = Array.from(required).filter((key) => key in properties);
+  } else if (additionalProperties) {
+    merged.additionalProperties = additionalProperties;
+  }
+  return merged;
+}
+
+/**
+ * Build a union from `oneOf`/`anyOf` members. Null members become nullability;
+ * objects that each pin the same property to a distinct constant become a
+ * discriminated union like the inferrer's.
+ */
+function importUnion(members: SchemaNode[], nullable: boolean, discriminator?: string): SchemaNode {
+  const nonNull = members.filter((m) => m.type !== 'null');
+  const isNullable = nullable || nonNull.length < members.length || nonNull.some((m) => m.nullable);
+
+  if (nonNull.length === 0) return { type: 'null', nullable: true };
+  if (nonNull.length === 1) return { ...nonNull[0], nullable: isNullable };
+
+  const property = discriminator ?? findDiscriminator(nonNull);
+  if (property) {
+    const variants = nonNull.map((m) => ({
+      ...m,
+      nullable: false,
+      discriminatorValue: String(m.properties?.[property]?.enum?.[0]),
+    }));
+    if (variants.every((v) => v.discriminatorValue !== 'undefined')) {
+      return { type: 'object', nullable: isNullable, discriminator: property, oneOf: variants };
+    }
+  }
+
+  return { type: 'unknown', nullable: isNullable, oneOf: nonNull.map((m) => ({ ...m, nullable: false })) };
+}
+
+function findDiscriminator(members: SchemaNode[]): string | undefined {
+  if (!members.every((m) => m.type === 'object' && m.properties)) return undefined;
+
+  return Object.keys(members[0].properties!).find((key) => {
+    const values = members.map((m) => m.properties![key]?.enum);
+    if (!values.every((v) => v?.length === 1 && typeof v[0] === 'string')) return false;
+    return new Set(values.map((v) => v![0])).size === members.length;
+  });
+}
+
+function hasKeywords(schema: JsonSchema): boolean {
+  return ['type', 'properties', 'required', 'items', 'additionalProperties'].some((k) => k in schema);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function jsonType(node: SchemaNode): JsonSchemaType | JsonSchemaType[] {
+  const type: JsonSchemaType =
+    node.type === 'number' && node.format === 'integer' ? 'integer' : (node.type as JsonSchemaType);
+  return node.nullable && type !== 'null' ? [type, 'null'] : type;
+}
+
+function unionToJsonSchema(union: SchemaNode): JsonSchema {
+  const node = collapseUnion(union);
+  if (!node.oneOf) return toJsonSchema(node);
+
+  const members = node.oneOf.map((member) => {
+    const schema = toJsonSchema(member);
+    if (node.discriminator && member.discriminatorValue !== undefined) {
+      schema.properties = {
+        ...schema.properties,
+        [node.discriminator]: { const: member.discriminatorValue },
+      };
+    }
+    return schema;
+  });
+
+  if (node.nullable && !node.oneOf!.some((m) => m.type === 'null')) {
+    members.push({ type: 'null' });
+  }
+
+  return { oneOf: members };
+}
@@ -0,0 +1,480 @@
+/**
+ * OpenAPI Converter
+ *
+ * Loads OpenAPI 3.0/3.1 documents (JSON or YAML) and resolves the response
+ * schema of an operation (`GET /users/{id}` + status code) to a SchemaNode,
+ * so live responses can be diffed against the published contract. Also
+ * generates an OpenAPI 3.1 document from stored snapshots and compares two
+ * documents operation by operation.
+ */
+
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import {
+  SchemaNode,
+  SchemaSnapshot,
+  DiffOptions,
+  DriftChange,
+  OperationDiff,
+  SchemaStore,
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  OpenApiMediaType,
+  OpenApiGenerateOptions,
+} from '../core/types';
+import { diffSchemas, severityFor } from '../core/differ';
+import { fromJsonSchema, toJsonSchema } from './jsonschema';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// ─── Loading ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse an OpenAPI document from JSON or YAML text.
+ */
+export function parseOpenApi(content: string): OpenApiDocument {
+  let doc: unknown;
+  try {
+    doc = content.trim().startsWith('{') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse OpenAPI document: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const version = (doc as OpenApiDocument | null)?.openapi;
+  if (typeof version !== 'string' || !/^3\.[01]\./.test(version)) {
+    throw new Error(
+      `Unsupported OpenAPI document (expected "openapi: 3.0.x" or "3.1.x", got ${JSON.stringify(version)})`
+    );
+  }
+  return doc as OpenApiDocument;
+}
+
+/**
+ * Read and parse an OpenAPI document from a file.
+ */
+export function loadOpenApi(filePath: string): OpenApiDocument {
+  return parseOpenApi(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// ─── Operation Lookup ───────────────────────────────────────────────────────
+
+/**
+ * Split a key like `GET /users/42` into its method and path.
+ */
+export function parseOperationKey(key: string): { method: string; path: string } {
+  const match = key.trim().match(/^([A-Za-z]+)\s+(\S+)$/);
+  if (!match) {
+    throw new Error(`Invalid operation key "${key}" (expected "METHOD /path", e.g. "GET /users/{id}")`);
+  }
+  return { method: match[1].toLowerCase(), path: match[2].split('?')[0] };
+}
+
+/**
+ * Whether a key names an HTTP operation (`GET /users/:id`), as opposed to
+ * free-form keys like 'user-service' that have no place in an OpenAPI document.
+ */
+export function isOperationKey(key: string): boolean {
+  const match = key.trim().match(/^([A-Za-z]+)\s+(\/\S*)$/);
+  return match !== null && HTTP_METHODS.includes(match[1].toLowerCase());
+}
+
+/**
+ * Find the operation for a key. The path may be concrete (`/users/42`),
+ * templated (`/users/{id}`, `/users/:id`) and may include a server base path.
+ */
+export function findOperation(
+  spec: OpenApiDocument,
+  key: string
+): { template: string; operation: OpenApiOperation } {
+  const { method, path } = parseOperationKey(key);
+  const candidates = [path];
+  for (const base of serverBasePaths(spec)) {
+    if (path.startsWith(`${base}/`)) candidates.push(path.slice(base.length));
+  }
+
+  // Literal paths win over templates (`/users/me` before `/users/{id}`)
+  const templates = Object.keys(spec.paths ?? {}).sort(
+    (a, b) => Number(a.includes('{')) - Number(b.includes('{'))
+  );
+
+  for (const candidate of candidates) {
+    for (const template of templates) {
+      const operation = spec.paths![template][method];
+      if (operation && matchPathTemplate(template, candidate)) {
+        return { template, operation };
+      }
+    }
+  }
+
+  throw new Error(`Operation "${key}" not found in the OpenAPI document`);
+}
+
+/**
+ * Resolve the response schema of an operation for a status code. Falls back
+ * to the `2XX`-style range and then `default`; prefers JSON media types.
+ */
+export function openApiResponseSchema(
+  spec: OpenApiDocument,
+  key: string,
+  status: string | number = 200
+): SchemaNode {
+  const { operation } = findOperation(spec, key);
+  const code = String(status);
+  const responses = operation.responses ?? {};
+  const response =
+    responses[code] ?? responses[`${code[0]}XX`] ?? responses[`${code[0]}xx`] ?? responses['default'];
+
+  if (!response) {
+    throw new Error(`No "${code}" response documented for "${key}"`);
+  }
+
+  const schema = mediaTypeSchema(resolveResponse(spec, response).content);
+  if (!schema) {
+    throw new Error(`The "${code}" response of "${key}" has no JSON schema`);
+  }
+
+  return fromJsonSchema(schema, spec);
+}
+
+// ─── Generation ─────────────────────────────────────────────────────────────
+
+/**
+ * Turn a key path into an OpenAPI path template: `:id` and `{id}` segments
+ * become path parameters, and any query string is dropped.
+ */
+export function toOpenApiPath(path: string): { template: string; parameters: OpenApiParameter[] } {
+  const parameters: OpenApiParameter[] = [];
+  const segments = path
+    .split('?')[0]
+    .split('/')
+    .map((segment) => {
+      const name = segment.match(/^:(\w+)$/)?.[1] ?? segment.match(/^\{(\w+)\}$/)?.[1];
+      if (!name) return segment;
+      parameters.push({ name, in: 'path', required: true, schema: { type: 'string' } });
+      return `{${name}}`;
+    });
+
+  return { template: segments.join('/') || '/', parameters };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from snapshots whose keys look like
+ * `METHOD /path`. Response snapshots become `200` responses and request
+ * snapshots become request bodies; other keys are skipped.
+ */
+export function generateOpenApi(
+  snapshots: SchemaSnapshot[],
+  options: OpenApiGenerateOptions = {}
+): OpenApiDocument {
+  const paths: Record<string, Record<string, OpenApiOperation>> = {};
+
+  for (const snapshot of [...snapshots].sort((a, b) => a.key.localeCompare(b.key))) {
+    if (!isOperationKey(snapshot.key)) continue;
+
+    const { method, path } = parseOperationKey(snapshot.key);
+    const { template, parameters } = toOpenApiPath(path);
+    const content = { 'application/json': { schema: toJsonSchema(snapshot.schema) } };
+    const item = paths[template] ?? (paths[template] = {});
+    const operation: OpenApiOperation = item[method] ?? {
+      operationId: operationId(method, template),
+      ...(parameters.length > 0 ? { parameters } : {}),
+    };
+
+    if (snapshot.direction === 'request') {
+      operation.requestBody = { required: true, content };
+    } else {
+      operation.responses = {
+        '200': { description: `Inferred from ${snapshot.sampleCount} sample(s) (v${snapshot.version})`, content },
+      };
+    }
+    item[method] = operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: options.title ?? 'Generated API', version: options.version ?? '1.0.0' },
+    paths,
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from the latest snapshot of every key in a store.
+ */
+export async function openApiFromStore(
+  store: SchemaStore,
+  options: OpenApiGenerateOptions = {}
+): Promise<OpenApiDocument> {
+  const snapshots: SchemaSnapshot[] = [];
+  for (const key of await store.listKeys()) {
+    const snapshot = await store.load(key);
+    if (snapshot) snapshots.push(snapshot);
+  }
+  return generateOpenApi(snapshots, options);
+}
+
+// ─── Spec Diff ──────────────────────────────────────────────────────────────
+
+/**
+ * Compare two OpenAPI documents operation by operation. Operations are
+ * matched by method and path template, ignoring path parameter names
+ * (`/users/{id}` matches `/users/{userId}`). Request bodies and the responses
+ * of status codes documented in both are diffed as schemas.
+ *
+ * @param prepare - Applied to every schema before diffing (e.g. to mask fields)
+ */
+export function diffOpenApiOperations(
+  before: OpenApiDocument,
+  after: OpenApiDocument,
+  options: DiffOptions = {},
+  prepare: (node: SchemaNode) => SchemaNode = (node) => node
+): OperationDiff[] {
+  const oldOps = listOperations(before);
+  const newOps = listOperations(after);
+  const diffs: OperationDiff[] = [];
+
+  for (const [id, op] of newOps) {
+    const previous = oldOps.get(id);
+    if (!previous) {
+      diffs.push({ key: op.key, changes: [operationChange('operation_added', op.key, options)] });
+      continue;
+    }
+
+    const changes = [
+      ...diffRequestBodies(before, after, previous.operation, op.operation, options, prepare),
+      ...diffResponses(before, after, previous.operation, op.operation, options, prepare),
+    ];
+    diffs.push({ key: op.key, changes });
+  }
+
+  for (const [id, op] of oldOps) {
+    if (!newOps.has(id)) {
+      diffs.push({ key: op.key, changes: [operationChange('operation_removed', op.key, options)] });
+    }
+  }
+
+  return diffs.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function listOperations(spec: OpenApiDocument): Map<string, { key: string; operation: OpenApiOperation }> {
+  const operations = new Map<string, { key: string; operation: OpenApiOperation }>();
+  for (const [template, item] of Object.entries(spec.paths ?? {})) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation) continue;
+      // Parameter names don't change the route, so `{id}` and `{userId}` match
+      const shape = template.replace(/\{[^}]+\}/g, '{}');
+      operations.set(`${method} ${shape}`, { key: `${method.toUpperCase()} ${template}`, operation });
+    }
+  }
+  return operations;
+}
+
+function operationChange(
+  type: 'operation_added' | 'operation_removed',
+  key: string,
+  options: DiffOptions
+): DriftChange {
+  return {
+    type,
+    severity: severityFor(type, options),
+    path: '(operation)',
+    message: `Operation "${key}" ${type === 'operation_added' ? 'added' : 'removed'}`,
+  };
+}
+
+function diffRequestBodies(
+  beforeSpec: OpenApiDocument,
+  afterSpec: OpenApiDocument,
+  before: OpenApiOperation,
+  after: OpenApiOperation,
+  options: DiffOptions,
+  prepare: (node: SchemaNode) => SchemaNode
+): DriftChange[] {
+  const requestOptions: DiffOptions = { ...options, direction: 'request', exhaustiveEnums: true };
+  const oldBody = before.requestBody && resolveRequestBody(beforeSpec, before.requestBody);
+  const newBody = after.requestBody && resolveRequestBody(afterSpec, after.requestBody);
+  const oldSchema = mediaTypeSchema(oldBody?.content);
+  const newSchema = mediaTypeSchema(newBody?.content);
+
+  if (oldSchema && newSchema) {
+    return diffSchemas(
+      prepare(fromJsonSchema(oldSchema, beforeSpec)),
+      prepare(fromJsonSchema(newSchema, afterSpec)),
+      'requestBody',
+      requestOptions
+    );
+  }
+
+  if (!oldSchema && newSchema) {
+    // Clients that send nothing break only if the new body is mandatory
+    return [
+      {
+        type: 'field_added',
+        severity: newBody?.required ? 'breaking' : severityFor('field_added', requestOptions),
+        path: 'requestBody',
+        message: `Request body added${newBody?.required ? ' (required)' : ''}`,
+      },
+    ];
+  }
+
+  if (oldSchema && !newSchema) {
+    return [
+      {
+        type: 'field_removed',
+        severity: severityFor('field_removed', requestOptions),
+        path: 'requestBody',
+        message: 'Request body removed',
+      },
+    ];
+  }
+
+  return [];
+}
+
+function diffResponses(
+  beforeSpec: OpenApiDocument,
+  afterSpec: OpenApiDocument,
+  before: OpenApiOperation,
+  after: OpenApiOperation,
+  options: DiffOptions,
+  prepare: (node: SchemaNode) => SchemaNode
+): DriftChange[] {
+  const responseOptions: DiffOptions = { ...options, direction: 'response', exhaustiveEnums: true };
+  const oldResponses = before.responses ?? {};
+  const newResponses = after.responses ?? {};
+  const changes: DriftChange[] = [];
+
+  for (const status of Object.keys(oldResponses)) {
+    if (status in newResponses) continue;
+    // Clients parse success bodies; losing one breaks them
+    changes.push({
+      type: 'status_removed',
+      severity: /^2/.test(status) ? 'breaking' : severityFor('status_removed', responseOptions),
+      path: `responses.${status}`,
+      message: `Status "${status}" response removed`,
+    });
+  }
+
+  for (const [status, response] of Object.entries(newResponses)) {
+    const path = `responses.${status}`;
+    if (!(status in oldResponses)) {
+      changes.push({
+        type: 'status_added',
+        severity: severityFor('status_added', responseOptions),
+        path,
+        message: `Status "${status}" response added`,
+      });
+      continue;
+    }
+
+    const oldSchema = mediaTypeSchema(resolveResponse(beforeSpec, oldResponses[status]).content);
+    const newSchema = mediaTypeSchema(resolveResponse(afterSpec, response).content);
+
+    if (oldSchema && newSchema) {
+      changes.push(
+        ...diffSchemas(
+          prepare(fromJsonSchema(oldSchema, beforeSpec)),
+          prepare(fromJsonSchema(newSchema, afterSpec)),
+          path,
+          responseOptions
+        )
+      );
+    } else if (oldSchema || newSchema) {
+      const type = oldSchema ? 'field_removed' : 'field_added';
+      changes.push({
+        type,
+        severity: severityFor(type, responseOptions),
+        path,
+        message: `Status "${status}" response body ${oldSchema ? 'removed' : 'added'}`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * `get` + `/api/v2/users/{id}` → `getApiV2UsersById`
+ */
+function operationId(method: string, template: string): string {
+  const words = template
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => {
+      const param = segment.match(/^\{(\w+)\}$/)?.[1];
+      const word = param ? `by_${param}` : segment;
+      return word
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean)
+        .map((w) => w[0].toUpperCase() + w.slice(1))
+        .join('');
+    });
+  return method + words.join('');
+}
+
+function matchPathTemplate(template: string, path: string): boolean {
+  const t = template.split('/').filter(Boolean);
+  const p = path.split('/').filter(Boolean);
+  if (t.length !== p.length) return false;
+
+  return t.every((segment, i) => {
+    if (/^\{[^}]+\}$/.test(segment)) return true;
+    return segment === p[i];
+  });
+}
+
+function serverBasePaths(spec: OpenApiDocument): string[] {
+  return (spec.servers ?? [])
+    .map((server) => {
+      try {
+        return new URL(server.url, 'http://localhost').pathname.replace(/\/$/, '');
+      } catch {
+        return '';
+      }
+    })
+    .filter((base) => base.length > 0);
+}
+
+function resolveResponse(spec: OpenApiDocument, response: OpenApiResponse): OpenApiResponse {
+  const prefix = '#/components/responses/';
+  if (!response.$ref) return response;
+  if (!response.$ref.startsWith(prefix)) {
+    throw new Error(`Unsupported response $ref "${response.$ref}"`);
+  }
+
+  const resolved = spec.components?.responses?.[response.$ref.slice(prefix.length)];
+  if (!resolved) throw new Error(`Unresolvable response $ref "${response.$ref}"`);
+  return resolved;
+}
+
+function resolveRequestBody(spec: OpenApiDocument, body: OpenApiRequestBody): OpenApiRequestBody {
+  const prefix = '#/components/requestBodies/';
+  if (!body.$ref) return body;
+  if (!body.$ref.startsWith(prefix)) {
+    throw new Error(`Unsupported request body $ref "${body.$ref}"`);
+  }
+
+  const resolved = spec.components?.requestBodies?.[body.$ref.slice(prefix.length)];
+  if (!resolved) throw new Error(`Unresolvable request body $ref "${body.$ref}"`);
+  return resolved;
+}
+
+function mediaTypeSchema(content: Record<string, OpenApiMediaType> | undefined): JsonSchema | undefined {
+  if (!content) return undefined;
+
+  const types = Object.keys(content);
+  const preferred =
+    types.find((t) => t.split(';')[0].trim() === 'application/json') ??
+    types.find((t) => /[/+]json\b/.test(t)) ??
+    types[0];
+
+  return preferred ? content[preferred].schema : undefined;
+}
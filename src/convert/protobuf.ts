@@ -0,0 +1,78 @@
+/**
+ * Protobuf Converter
+ *
+ * Converts a `.proto` message definition to a SchemaNode describing the
+ * objects `parseProtobuf` decodes, so a revision of the definition can be
+ * diffed against the previous one (or used as a declared baseline for live
+ * payloads) before any traffic exists.
+ */
+
+import * as protobuf from 'protobufjs';
+import { SchemaNode } from '../core/types';
+import { loadProtoType } from '../formats/protobuf';
+
+/** Scalar types decoded as JSON numbers that are always whole */
+const INTEGER_TYPES = ['int32', 'uint32', 'sint32', 'fixed32', 'sfixed32'];
+
+/** 64-bit integers and bytes are decoded as strings (proto3 JSON mapping) */
+const STRING_TYPES = ['string', 'bytes', 'int64', 'uint64', 'sint64', 'fixed64', 'sfixed64'];
+
+/**
+ * Convert a message type from a `.proto` file to a SchemaNode.
+ *
+ * @param protoFile   Path to the `.proto` file
+ * @param messageType Message name, optionally package-qualified (e.g., 'accounts.v1.User')
+ */
+export function fromProto(protoFile: string, messageType: string): SchemaNode {
+  return messageSchema(loadProtoType(protoFile, messageType), []);
+}
+
+// ─── Conversion ─────────────────────────────────────────────────────────────
+
+/**
+ * Fields outside a `oneof` are always present (unset ones decode to their
+ * default); `oneof` members and proto3 `optional` fields may be absent.
+ */
+function messageSchema(type: protobuf.Type, seen: string[]): SchemaNode {
+  // Recursive messages stop at the first repeat
+  if (seen.includes(type.fullName)) return { type: 'object', nullable: false };
+  const path = [...seen, type.fullName];
+
+  const properties: Record<string, SchemaNode> = {};
+  for (const field of type.fieldsArray) {
+    properties[field.name] = fieldSchema(field, path);
+  }
+
+  return {
+    type: 'object',
+    nullable: false,
+    properties,
+    required: type.fieldsArray.filter((field) => !field.partOf).map((field) => field.name),
+  };
+}
+
+function fieldSchema(field: protobuf.Field, seen: string[]): SchemaNode {
+  const value = valueSchema(field, seen);
+
+  if (field instanceof protobuf.MapField) {
+    return { type: 'object', nullable: false, additionalProperties: value };
+  }
+  if (field.repeated) {
+    return { type: 'array', nullable: false, items: value };
+  }
+  // Unset message fields decode to null
+  return field.resolvedType instanceof protobuf.Type ? { ...value, nullable: true } : value;
+}
+
+function valueSchema(field: protobuf.Field, seen: string[]): SchemaNode {
+  const resolved = field.resolvedType;
+  if (resolved instanceof protobuf.Type) return messageSchema(resolved, seen);
+  if (resolved instanceof protobuf.Enum) {
+    return { type: 'string', nullable: false, enum: Object.keys(resolved.values) };
+  }
+
+  if (field.type === 'bool') return { type: 'boolean', nullable: false };
+  if (STRING_TYPES.includes(field.type)) return { type: 'string', nullable: false };
+  if (INTEGER_TYPES.includes(field.type)) return { type: 'number', nullable: false, format: 'integer' };
+  return { type: 'number', nullable: false };
+}
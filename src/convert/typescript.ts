@@ -0,0 +1,215 @@
+/**
+ * TypeScript Generator
+ *
+ * Turns stored snapshots into TypeScript declarations: objects become
+ * interfaces, optional fields get `?`, nullable fields `| null` and unions
+ * become union types. Names derive from the key and the output carries no
+ * timestamps, so regenerating after drift yields a reviewable type diff.
+ */
+
+import { SchemaNode, SchemaSnapshot, SchemaDirection, FormatHint, TypeScriptOptions } from '../core/types';
+import { collapseUnion } from '../core/inferrer';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Numeric hints describe the number itself rather than a string format worth branding */
+const UNBRANDED_FORMATS: FormatHint[] = ['integer', 'float'];
+
+// ─── Naming ─────────────────────────────────────────────────────────────────
+
+/**
+ * Type name for a key: `GET /api/users/:id` → `GetApiUsersByIdResponse`.
+ * Request snapshots get a `Request` suffix instead.
+ */
+export function typeNameForKey(key: string, direction: SchemaDirection = 'response'): string {
+  const words = key
+    .split('?')[0]
+    .split(/[\s/]+/)
+    .flatMap((segment) => {
+      const param = segment.match(/^:(\w+)$/)?.[1] ?? segment.match(/^\{(\w+)\}$/)?.[1];
+      return param ? ['by', ...splitWords(param)] : splitWords(segment);
+    });
+
+  const base = words.map(capitalize).join('') || 'Schema';
+  return (/^[0-9]/.test(base) ? `_${base}` : base) + (direction === 'request' ? 'Request' : 'Response');
+}
+
+// ─── Generation ─────────────────────────────────────────────────────────────
+
+/**
+ * Generate declarations for one schema. Nested objects become their own
+ * interfaces named after their parent and property (`UserAddress`).
+ */
+export function toTypeScript(node: SchemaNode, name: string, options: TypeScriptOptions = {}): string {
+  const emitter = new Emitter(options);
+  emitter.declare(node, name);
+  return preamble(options) + emitter.output();
+}
+
+/**
+ * Generate a module with one root type per snapshot, sorted by key.
+ */
+export function generateTypeScript(snapshots: SchemaSnapshot[], options: TypeScriptOptions = {}): string {
+  const emitter = new Emitter(options);
+  for (const snapshot of [...snapshots].sort((a, b) => a.key.localeCompare(b.key))) {
+    const name = typeNameForKey(snapshot.key, snapshot.direction);
+    emitter.declare(snapshot.schema, name, `${snapshot.key} (v${snapshot.version})`);
+  }
+
+  return (
+    '// Generated by api-schema-differentiator from stored schema snapshots. Do not edit.\n\n' +
+    preamble(options) +
+    emitter.output()
+  );
+}
+
+function preamble(options: TypeScriptOptions): string {
+  if (!options.brandFormats) return '';
+  return (
+    '/** A primitive tagged with the format it was observed in */\n' +
+    'export type Formatted<T, F extends string> = T & { readonly __format: F };\n\n'
+  );
+}
+
+// ─── Emitter ────────────────────────────────────────────────────────────────
+
+/**
+ * Collects declarations in order of first use, parents before children,
+ * with names made unique by a numeric suffix.
+ */
+class Emitter {
+  private declarations: string[] = [];
+  private used = new Set<string>();
+
+  constructor(private options: TypeScriptOptions) {}
+
+  declare(node: SchemaNode, name: string, comment?: string): void {
+    if (isInterface(node)) {
+      this.declareInterface(node, name, comment);
+      return;
+    }
+
+    const slot = this.reserveSlot();
+    const unique = this.reserveName(name);
+    const lines = comment ? [`/** ${comment} */`] : [];
+    lines.push(`export type ${unique} = ${this.typeOf(node, unique)};`);
+    this.declarations[slot] = lines.join('\n');
+  }
+
+  output(): string {
+    return this.declarations.map((d) => `${d}\n`).join('\n');
+  }
+
+  private declareInterface(node: SchemaNode, name: string, comment?: string, literal?: [string, string]): string {
+    const slot = this.reserveSlot();
+    const unique = this.reserveName(name);
+    const required = new Set(node.required ?? []);
+    const lines = comment ? [`/** ${comment} */`] : [];
+
+    lines.push(`export interface ${unique} {`);
+    for (const [key, child] of Object.entries(node.properties ?? {})) {
+      const doc = this.formatComment(child);
+      if (doc) lines.push(`  /** ${doc} */`);
+
+      const type =
+        literal && literal[0] === key ? quote(literal[1]) : this.typeOf(child, unique + capitalize(key));
+      lines.push(`  ${propertyName(key)}${required.has(key) ? '' : '?'}: ${type};`);
+    }
+    lines.push('}');
+
+    this.declarations[slot] = lines.join('\n');
+    return unique;
+  }
+
+  private typeOf(node: SchemaNode, hint: string): string {
+    return withNull(this.baseType(node, hint), node.nullable && node.type !== 'null');
+  }
+
+  private baseType(schema: SchemaNode, hint: string): string {
+    const node = collapseUnion(schema);
+    if (node.oneOf) {
+      return node.oneOf
+        .map((member) => {
+          if (node.discriminator && member.discriminatorValue !== undefined && isInterface(member)) {
+            const variant = hint + splitWords(member.discriminatorValue).map(capitalize).join('');
+            return this.declareInterface(member, variant, undefined, [node.discriminator, member.discriminatorValue]);
+          }
+          return this.typeOf({ ...member, nullable: false }, `${hint}${capitalize(member.type)}`);
+        })
+        .join(' | ');
+    }
+
+    switch (node.type) {
+      case 'object':
+        if (node.additionalProperties) {
+          return `Record<string, ${this.typeOf(node.additionalProperties, `${hint}Value`)}>`;
+        }
+        return node.properties ? this.declareInterface(node, hint) : 'Record<string, unknown>';
+      case 'array': {
+        if (!node.items) return 'unknown[]';
+        const item = this.typeOf(node.items, `${hint}Item`);
+        return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+      }
+      case 'string':
+      case 'number':
+        return this.options.brandFormats && node.format && !UNBRANDED_FORMATS.includes(node.format)
+          ? `Formatted<${node.type}, ${quote(node.format)}>`
+          : node.type;
+      case 'boolean':
+      case 'null':
+      case 'unknown':
+        return node.type;
+    }
+  }
+
+  /**
+   * Format hints become doc comments unless they are already carried by a brand.
+   */
+  private formatComment(node: SchemaNode): string | undefined {
+    if (!node.format) return undefined;
+    if (this.options.brandFormats && !UNBRANDED_FORMATS.includes(node.format)) return undefined;
+    return `Format: ${node.format}`;
+  }
+
+  private reserveSlot(): number {
+    return this.declarations.push('') - 1;
+  }
+
+  private reserveName(name: string): string {
+    let unique = name;
+    for (let n = 2; this.used.has(unique); n++) unique = `${name}${n}`;
+    this.used.add(unique);
+    return unique;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function isInterface(node: SchemaNode): boolean {
+  return node.type === 'object' && !node.oneOf && !node.additionalProperties && node.properties !== undefined;
+}
+
+function withNull(type: string, nullable: boolean): string {
+  return nullable ? `${type} | null` : type;
+}
+
+function propertyName(key: string): string {
+  return IDENTIFIER.test(key) ? key : quote(key);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function splitWords(value: string): string[] {
+  return value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * `users` → `Users`, `GET` → `Get`, `userId` → `UserId`, `first_name` → `FirstName`
+ */
+function capitalize(word: string): string {
+  return splitWords(word)
+    .map((w) => (w === w.toUpperCase() ? w[0] + w.slice(1).toLowerCase() : w[0].toUpperCase() + w.slice(1)))
+    .join('');
+}
@@ -0,0 +1,133 @@
+/**
+ * Zod Generator
+ *
+ * Turns inferred schemas into Zod source code for runtime validation in
+ * clients. Format hints map to Zod refinements (`uuid` → `.uuid()`), optional
+ * fields to `.optional()`, nullable fields to `.nullable()` and unions to
+ * `z.union` / `z.discriminatedUnion`.
+ */
+
+import { SchemaNode, SchemaSnapshot, FormatHint } from '../core/types';
+import { collapseUnion } from '../core/inferrer';
+import { typeNameForKey } from './typescript';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/** Refinements appended to `z.string()` / `z.number()` for each format hint */
+const FORMAT_REFINEMENTS: Partial<Record<NonNullable<FormatHint>, string>> = {
+  uuid: '.uuid()',
+  email: '.email()',
+  url: '.url()',
+  uri: '.url()',
+  // The inferrer also accepts timestamps without a timezone
+  'iso-datetime': '.datetime({ local: true, offset: true })',
+  'iso-date': '.regex(/^\\d{4}-\\d{2}-\\d{2}$/)',
+  ipv4: ".ip({ version: 'v4' })",
+  ipv6: ".ip({ version: 'v6' })",
+  integer: '.int()',
+  'unix-timestamp': '.int()',
+};
+
+// ─── Generation ─────────────────────────────────────────────────────────────
+
+/**
+ * Convert a SchemaNode to a Zod schema expression, e.g.
+ * `z.object({ id: z.number().int(), email: z.string().email().nullable() })`.
+ */
+export function toZod(node: SchemaNode): string {
+  return zodExpression(node, '');
+}
+
+/**
+ * Generate a module exporting a Zod schema and its inferred type for the
+ * latest snapshot of every key, sorted by key (`GetUsersResponseSchema` / `GetUsersResponse`).
+ */
+export function generateZod(snapshots: SchemaSnapshot[]): string {
+  const used = new Set<string>();
+  const blocks = [...snapshots]
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .map((snapshot) => {
+      const base = typeNameForKey(snapshot.key, snapshot.direction);
+      let name = base;
+      for (let n = 2; used.has(name); n++) name = `${base}${n}`;
+      used.add(name);
+
+      return [
+        `/** ${snapshot.key} (v${snapshot.version}) */`,
+        `export const ${name}Schema = ${toZod(snapshot.schema)};`,
+        `export type ${name} = z.infer<typeof ${name}Schema>;`,
+        '',
+      ].join('\n');
+    });
+
+  return [
+    '// Generated by api-schema-differentiator from stored schema snapshots. Do not edit.',
+    '',
+    "import { z } from 'zod';",
+    '',
+    ...blocks,
+  ].join('\n');
+}
+
+// ─── Expressions ────────────────────────────────────────────────────────────
+
+function zodExpression(node: SchemaNode, indent: string): string {
+  const base = baseExpression(node, indent);
+  return node.nullable && node.type !== 'null' ? `${base}.nullable()` : base;
+}
+
+function baseExpression(schema: SchemaNode, indent: string): string {
+  const node = collapseUnion(schema);
+  if (node.oneOf) {
+    const members = node.oneOf.map((member) =>
+      node.discriminator && member.discriminatorValue !== undefined
+        ? objectExpression(member, indent, [node.discriminator, member.discriminatorValue])
+        : zodExpression({ ...member, nullable: false }, indent)
+    );
+    return node.discriminator
+      ? `z.discriminatedUnion(${quote(node.discriminator)}, [${members.join(', ')}])`
+      : `z.union([${members.join(', ')}])`;
+  }
+
+  switch (node.type) {
+    case 'object':
+      if (node.additionalProperties) {
+        return `z.record(z.string(), ${zodExpression(node.additionalProperties, indent)})`;
+      }
+      return node.properties ? objectExpression(node, indent) : 'z.record(z.string(), z.unknown())';
+    case 'array':
+      return `z.array(${node.items ? zodExpression(node.items, indent) : 'z.unknown()'})`;
+    case 'string':
+    case 'number':
+      return `z.${node.type}()${(node.format && FORMAT_REFINEMENTS[node.format]) ?? ''}`;
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    case 'unknown':
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * `z.object({...})` with one property per line. Discriminated variants pin
+ * their discriminator with `z.literal`.
+ */
+function objectExpression(node: SchemaNode, indent: string, literal?: [string, string]): string {
+  const entries = Object.entries(node.properties ?? {});
+  if (entries.length === 0) return 'z.object({})';
+
+  const inner = `${indent}  `;
+  const required = new Set(node.required ?? []);
+  const lines = entries.map(([key, child]) => {
+    const value =
+      literal && literal[0] === key ? `z.literal(${quote(literal[1])})` : zodExpression(child, inner);
+    return `${inner}${IDENTIFIER.test(key) ? key : quote(key)}: ${value}${required.has(key) ? '' : '.optional()'},`;
+  });
+
+  return `z.object({\n${lines.join('\n')}\n${indent}})`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
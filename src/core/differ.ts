@@ -5,7 +5,8 @@
  * describing every difference between them.
  */
 
-import { SchemaNode, DriftChange, DriftType, DriftSeverity } from './types';
+import { SchemaNode, DriftChange, DriftType, DriftSeverity, DiffOptions } from './types';
+import { mapValueSchema, splitVariants, flattenVariants, isUnion } from './inferrer';
 
 // ─── Severity Mapping ───────────────────────────────────────────────────────
 
@@ -17,23 +18,81 @@ const SEVERITY_MAP: Record<DriftType, DriftSeverity> = {
   array_items_changed: 'warning',
   nesting_changed: 'breaking',
   field_renamed: 'warning',
+  field_moved: 'warning',
   format_changed: 'info',
   required_changed: 'warning',
   homogeneity_changed: 'warning',
+  enum_value_added: 'warning',
+  enum_value_removed: 'info',
+  range_changed: 'warning',
+  variant_added: 'warning',
+  variant_removed: 'info',
+  union_member_added: 'info',
+  union_member_removed: 'breaking',
+  operation_added: 'info',
+  operation_removed: 'breaking',
+  status_added: 'info',
+  status_removed: 'warning',
+  columns_reordered: 'info',
+  errors_appeared: 'warning',
+  type_added: 'info',
+  type_removed: 'breaking',
 };
 
+/**
+ * Request bodies flip the contract: the server is the consumer, so removing
+ * a field or accepting more values is harmless, while new requirements break clients.
+ */
+const REQUEST_SEVERITY_MAP: Record<DriftType, DriftSeverity> = {
+  ...SEVERITY_MAP,
+  field_added: 'info',
+  field_removed: 'info',
+  enum_value_added: 'info',
+  enum_value_removed: 'warning',
+  variant_added: 'info',
+  variant_removed: 'warning',
+};
+
+/** Sections of a GraphQL response schema, diffed one by one */
+const GRAPHQL_SECTIONS = ['data', 'errors', 'extensions'];
+
+// ─── Range Limits ───────────────────────────────────────────────────────────
+
+const DEFAULT_RANGE_TOLERANCE = 0.5;
+
+/** Baseline samples needed before an observed range is trusted */
+const MIN_RANGE_SAMPLES = 5;
+
 // ─── Helper ─────────────────────────────────────────────────────────────────
 
+/**
+ * Default severity of a drift type for the given schema direction.
+ */
+export function severityFor(
+  type: DriftType,
+  options: DiffOptions,
+  before?: string,
+  after?: string
+): DriftSeverity {
+  if (options.direction !== 'request') return SEVERITY_MAP[type];
+
+  // Tightening what clients must send breaks them; loosening never does
+  if (type === 'required_changed') return after === 'required' ? 'breaking' : 'info';
+  if (type === 'nullable_changed') return after === 'non-null' ? 'breaking' : 'info';
+  return REQUEST_SEVERITY_MAP[type];
+}
+
 function change(
   type: DriftType,
   path: string,
   message: string,
-  before?: string,
-  after?: string
+  before: string | undefined,
+  after: string | undefined,
+  options: DiffOptions
 ): DriftChange {
   return {
     type,
-    severity: SEVERITY_MAP[type],
+    severity: severityFor(type, options, before, after),
     path,
     message,
     before,
@@ -42,9 +101,15 @@ function change(
 }
 
 function typeLabel(node: SchemaNode): string {
+  if (node.oneOf && node.discriminator) {
+    return `oneOf(${node.oneOf.map((v) => `${node.discriminator}=${v.discriminatorValue}`).join(', ')})`;
+  }
   if (node.oneOf) {
     return `oneOf(${node.oneOf.map(typeLabel).join(', ')})`;
   }
+  if (node.additionalProperties) {
+    return `map<${typeLabel(node.additionalProperties)}>`;
+  }
   let label = node.type;
   if (node.format) label += `<${node.format}>`;
   if (node.type === 'array' && node.items) {
@@ -53,46 +118,646 @@ function typeLabel(node: SchemaNode): string {
   return label;
 }
 
-// ─── Rename Detection ───────────────────────────────────────────────────────
+/**
+ * Whether nullability drifted. A declared nullable field that happens to
+ * hold a value is still within its contract.
+ */
+function nullableDrifted(before: SchemaNode, after: SchemaNode, options: DiffOptions): boolean {
+  if (before.nullable === after.nullable) return false;
+  return !(options.declared && before.nullable);
+}
+
+function nullableChange(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  options: DiffOptions
+): DriftChange {
+  return change(
+    'nullable_changed',
+    path || '(root)',
+    `Nullable changed at "${path || '(root)'}" (${before.nullable ? 'nullable' : 'non-null'} → ${after.nullable ? 'nullable' : 'non-null'})`,
+    before.nullable ? 'nullable' : 'non-null',
+    after.nullable ? 'nullable' : 'non-null',
+    options
+  );
+}
+
+/**
+ * A node's observed values count as an enum only once they have repeated
+ * across samples — a single sample of "Alice" says nothing about the domain.
+ * Declared enums (converted from a document, so without a sample count) are
+ * complete when `exhaustiveEnums` is set.
+ */
+function isEnumLike(node: SchemaNode, options: DiffOptions): boolean {
+  if (node.enum === undefined) return false;
+  if (options.exhaustiveEnums && node.sampleCount === undefined) return true;
+  return (node.sampleCount ?? 1) > node.enum.length;
+}
+
+function enumLabel(values: Array<string | number>): string {
+  return values.map((v) => JSON.stringify(v)).join(' | ');
+}
+
+function rangeLabel(min: number | undefined, max: number | undefined): string {
+  return `[${min ?? '?'}, ${max ?? '?'}]`;
+}
+
+/**
+ * Flag values that left the baseline's observed range. Sign flips and
+ * overflow past 2^53 are always reported; plain growth only once the
+ * baseline has enough samples and exceeds the configured tolerance.
+ */
+function detectRangeChange(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  options: DiffOptions
+): DriftChange | null {
+  const tolerance = options.rangeTolerance ?? DEFAULT_RANGE_TOLERANCE;
+  const trusted = (before.sampleCount ?? 1) >= MIN_RANGE_SAMPLES;
+  const at = path || '(root)';
+
+  if (before.type === 'number') {
+    const { minimum: bMin, maximum: bMax } = before;
+    const { minimum: aMin, maximum: aMax } = after;
+    if (bMin === undefined || bMax === undefined || aMin === undefined || aMax === undefined) {
+      return null;
+    }
+
+    const reasons: string[] = [];
+    if (bMin >= 0 && aMin < 0) reasons.push('now negative');
+    if (
+      Math.max(Math.abs(bMin), Math.abs(bMax)) <= Number.MAX_SAFE_INTEGER &&
+      Math.max(Math.abs(aMin), Math.abs(aMax)) > Number.MAX_SAFE_INTEGER
+    ) {
+      reasons.push('exceeds safe integer range');
+    }
+    // Slack grows with the bound, or with the range width for bounds near 0
+    const slack = (bound: number) => tolerance * (Math.max(Math.abs(bound), bMax - bMin) || 1);
+    if (trusted && (aMax > bMax + slack(bMax) || aMin < bMin - slack(bMin))) {
+      reasons.push('outside observed range');
+    }
+    if (reasons.length === 0) return null;
+
+    return change(
+      'range_changed',
+      at,
+      `Value range changed at "${at}" (${rangeLabel(bMin, bMax)} → ${rangeLabel(aMin, aMax)}, ${reasons.join(', ')})`,
+      rangeLabel(bMin, bMax),
+      rangeLabel(aMin, aMax),
+      options
+    );
+  }
+
+  if (before.type === 'string') {
+    // Shorter strings never overflow a consumer's column, so only growth counts
+    const bMax = before.maxLength;
+    const aMax = after.maxLength;
+    if (!trusted || bMax === undefined || aMax === undefined) return null;
+    if (aMax <= bMax + tolerance * bMax) return null;
+
+    return change(
+      'range_changed',
+      at,
+      `String length grew at "${at}" (max ${bMax} → ${aMax} chars)`,
+      rangeLabel(before.minLength, bMax),
+      rangeLabel(after.minLength, aMax),
+      options
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Compare the relative order of the columns present on both sides, so
+ * added or removed columns alone don't count as a reorder.
+ */
+function detectReorder(
+  beforeProps: Record<string, SchemaNode>,
+  afterProps: Record<string, SchemaNode>,
+  path: string,
+  options: DiffOptions
+): DriftChange | null {
+  const beforeOrder = Object.keys(beforeProps).filter((key) => key in afterProps);
+  const afterOrder = Object.keys(afterProps).filter((key) => key in beforeProps);
+  if (beforeOrder.every((key, i) => afterOrder[i] === key)) return null;
+
+  const at = path || '(root)';
+  return change(
+    'columns_reordered',
+    at,
+    `Columns reordered at "${at}" (${beforeOrder.join(', ')} → ${afterOrder.join(', ')})`,
+    beforeOrder.join(', '),
+    afterOrder.join(', '),
+    options
+  );
+}
+
+// ─── Union Diff ─────────────────────────────────────────────────────────────
+
+function memberKey(node: SchemaNode): string {
+  return node.type + (node.format ? `:${node.format}` : '');
+}
+
+/**
+ * Pair up union members: exact type+format first, then by type alone so a
+ * format change inside a member is reported as such rather than remove+add.
+ */
+function matchUnionMembers(
+  before: SchemaNode[],
+  after: SchemaNode[]
+): { matched: Array<[SchemaNode, SchemaNode]>; removed: SchemaNode[]; added: SchemaNode[] } {
+  const remaining = [...after];
+  const unmatched: SchemaNode[] = [];
+  const matched: Array<[SchemaNode, SchemaNode]> = [];
+
+  for (const member of before) {
+    const idx = remaining.findIndex((m) => memberKey(m) === memberKey(member));
+    if (idx === -1) {
+      unmatched.push(member);
+    } else {
+      matched.push([member, remaining[idx]]);
+      remaining.splice(idx, 1);
+    }
+  }
+
+  const removed: SchemaNode[] = [];
+  for (const member of unmatched) {
+    const idx = remaining.findIndex((m) => m.type === member.type);
+    if (idx === -1) {
+      removed.push(member);
+    } else {
+      matched.push([member, remaining[idx]]);
+      remaining.splice(idx, 1);
+    }
+  }
+
+  return { matched, removed, added: remaining };
+}
 
 /**
- * Heuristic: if a field was removed and another added at the same level,
- * and their schemas are structurally similar, flag it as a possible rename.
+ * Compare two unions member by member.
+ */
+function diffUnions(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  options: DiffOptions
+): DriftChange[] {
+  const at = path || '(root)';
+  const changes: DriftChange[] = [];
+  const { matched, removed, added } = matchUnionMembers(before.oneOf!, after.oneOf!);
+
+  for (const member of removed) {
+    changes.push(
+      change(
+        'union_member_removed',
+        at,
+        `Union member removed at "${at}": ${typeLabel(member)} (${typeLabel(before)} → ${typeLabel(after)})`,
+        typeLabel(member),
+        undefined,
+        options
+      )
+    );
+  }
+
+  for (const member of added) {
+    changes.push(
+      change(
+        'union_member_added',
+        at,
+        `Union member added at "${at}": ${typeLabel(member)} (${typeLabel(before)} → ${typeLabel(after)})`,
+        undefined,
+        typeLabel(member),
+        options
+      )
+    );
+  }
+
+  for (const [b, a] of matched) {
+    changes.push(...diffNodes(b, a, path, options));
+  }
+
+  return changes;
+}
+
+/**
+ * The union member a plain node corresponds to, if any.
+ */
+function findUnionMember(union: SchemaNode, node: SchemaNode): SchemaNode | undefined {
+  return (
+    union.oneOf!.find((m) => memberKey(m) === memberKey(node)) ??
+    union.oneOf!.find((m) => m.type === node.type)
+  );
+}
+
+// ─── Discriminated Union Diff ───────────────────────────────────────────────
+
+/**
+ * Path of a variant: `payments[]` becomes `payments[type=bank]`.
+ */
+function variantPath(path: string, discriminator: string, value: string): string {
+  const base = path.endsWith('[]') ? path.slice(0, -2) : path;
+  return `${base}[${discriminator}=${value}]`;
+}
+
+/**
+ * Compare discriminated unions variant by variant. Falls back to comparing
+ * flattened objects when either side can't be split by the same discriminator.
+ */
+function diffVariants(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  options: DiffOptions
+): DriftChange[] {
+  const discriminator = (before.discriminator ?? after.discriminator)!;
+  const beforeVariants = splitVariants(before, discriminator);
+  const afterVariants = splitVariants(after, discriminator);
+
+  if (!beforeVariants || !afterVariants) {
+    return diffNodes(flattenVariants(before), flattenVariants(after), path, options);
+  }
+
+  const changes: DriftChange[] = [];
+
+  for (const [value, variant] of afterVariants) {
+    const vPath = variantPath(path, discriminator, value);
+    const previous = beforeVariants.get(value);
+    if (previous) {
+      changes.push(...diffNodes(previous, variant, vPath, options));
+    } else {
+      changes.push(
+        change(
+          'variant_added',
+          vPath,
+          `Variant added: "${vPath}" (${discriminator} = "${value}")`,
+          undefined,
+          value,
+          options
+        )
+      );
+    }
+  }
+
+  // A plain object only shows one variant, so absence means nothing there
+  if (after.discriminator) {
+    for (const value of beforeVariants.keys()) {
+      if (!afterVariants.has(value)) {
+        const vPath = variantPath(path, discriminator, value);
+        changes.push(
+          change(
+            'variant_removed',
+            vPath,
+            `Variant no longer observed: "${vPath}" (${discriminator} = "${value}")`,
+            value,
+            undefined,
+            options
+          )
+        );
+      }
+    }
+  }
+
+  return changes;
+}
+
+// ─── Rename & Move Detection ────────────────────────────────────────────────
+
+/** Minimum confidence for pairing a removed and an added field at the same level */
+const RENAME_THRESHOLD = 0.6;
+
+/** Name similarity a renamed leaf needs; shape alone only identifies larger subtrees */
+const MIN_RENAME_NAME_SIMILARITY = 0.5;
+
+/** Minimum confidence for pairing fields across levels (stricter: far more candidates) */
+const MOVE_THRESHOLD = 0.75;
+
+/** Structural similarity at which two subtrees count as the same shape */
+const SAME_SHAPE = 0.9;
+
+/** Leaf fields a subtree needs before its shape alone can identify a renamed move */
+const MIN_MOVE_LEAVES = 3;
+
+/** How deep below a removed/added field to look for moved subtrees */
+const MAX_MOVE_DEPTH = 3;
+
+interface FieldMatch {
+  from: string;
+  to: string;
+  fromNode: SchemaNode;
+  toNode: SchemaNode;
+  confidence: number;
+}
+
+/**
+ * Pair fields removed and added at the same level by name and structural
+ * similarity, reporting each pair as a likely rename with a confidence.
  */
 function detectRenames(
   removed: Map<string, SchemaNode>,
   added: Map<string, SchemaNode>,
-  basePath: string
+  basePath: string,
+  options: DiffOptions
 ): DriftChange[] {
-  const renames: DriftChange[] = [];
-  const matchedRemoved = new Set<string>();
-  const matchedAdded = new Set<string>();
+  const similarity = new Map<string, number>();
+  const sameShapeCount = new Map<string, number>();
 
   for (const [rKey, rSchema] of removed) {
     for (const [aKey, aSchema] of added) {
-      if (matchedAdded.has(aKey)) continue;
+      const s = structuralSimilarity(rSchema, aSchema);
+      similarity.set(`${rKey}\0${aKey}`, s);
+      if (s >= SAME_SHAPE) {
+        sameShapeCount.set(`-${rKey}`, (sameShapeCount.get(`-${rKey}`) ?? 0) + 1);
+        sameShapeCount.set(`+${aKey}`, (sameShapeCount.get(`+${aKey}`) ?? 0) + 1);
+      }
+    }
+  }
 
-      // Same type and similar name → possible rename
-      if (rSchema.type === aSchema.type && isSimilarName(rKey, aKey)) {
-        renames.push(
-          change(
-            'field_renamed',
-            basePath ? `${basePath}.${rKey}` : rKey,
-            `Field possibly renamed: "${rKey}" → "${aKey}"`,
-            rKey,
-            aKey
-          )
-        );
-        matchedRemoved.add(rKey);
-        matchedAdded.add(aKey);
-        break;
+  const candidates: FieldMatch[] = [];
+  for (const [rKey, rSchema] of removed) {
+    for (const [aKey, aSchema] of added) {
+      const s = similarity.get(`${rKey}\0${aKey}`)!;
+      if (s === 0) continue;
+
+      // Two fields of the same primitive type always match in shape
+      const n = nameSimilarity(rKey, aKey);
+      if (n < MIN_RENAME_NAME_SIMILARITY && countLeaves(rSchema) < MIN_MOVE_LEAVES) continue;
+
+      // The only same-shaped field on both sides is strong evidence on its own
+      const unique =
+        s >= SAME_SHAPE && sameShapeCount.get(`-${rKey}`) === 1 && sameShapeCount.get(`+${aKey}`) === 1;
+      const confidence = Math.min(1, 0.5 * n + 0.5 * s + (unique ? 0.2 : 0));
+
+      if (confidence >= RENAME_THRESHOLD) {
+        candidates.push({ from: rKey, to: aKey, fromNode: rSchema, toNode: aSchema, confidence });
       }
     }
   }
 
+  const renames: DriftChange[] = [];
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  for (const match of pickMatches(candidates)) {
+    const rename = change(
+      'field_renamed',
+      basePath ? `${basePath}.${match.from}` : match.from,
+      `Field likely renamed: "${match.from}" → "${match.to}"`,
+      match.from,
+      match.to,
+      options
+    );
+    rename.confidence = round(match.confidence);
+    renames.push(rename);
+  }
+
   return renames;
 }
 
+/**
+ * Pair removed and added fields across levels (e.g. `user.address` →
+ * `user.profile.address`). Candidates include fields nested inside removed
+ * or added objects, so a subtree moved under a new parent is still found.
+ * Matched removals/additions are replaced by a single `field_moved` entry.
+ */
+function detectMoves(
+  changes: DriftChange[],
+  before: SchemaNode,
+  after: SchemaNode,
+  basePath: string,
+  options: DiffOptions
+): DriftChange[] {
+  const sources = collectMoveCandidates(changes, 'field_removed', before, basePath);
+  const targets = collectMoveCandidates(changes, 'field_added', after, basePath);
+  if (sources.length === 0 || targets.length === 0) return changes;
+
+  const candidates: FieldMatch[] = [];
+  for (const source of sources) {
+    for (const target of targets) {
+      // Same-level pairs were already considered as renames
+      if (parentPath(source.path) === parentPath(target.path)) continue;
+      if (isWithin(source.path, target.path) || isWithin(target.path, source.path)) continue;
+
+      // A moved field may also have changed a little; a renamed one must keep its shape
+      const s = structuralSimilarity(source.node, target.node);
+      const n = nameSimilarity(leafName(source.path), leafName(target.path));
+      if (n < 0.8 && (s < SAME_SHAPE || countLeaves(source.node) < MIN_MOVE_LEAVES)) continue;
+
+      const confidence = 0.5 * n + 0.5 * s;
+      if (confidence >= MOVE_THRESHOLD) {
+        candidates.push({
+          from: source.path,
+          to: target.path,
+          fromNode: source.node,
+          toNode: target.node,
+          confidence,
+        });
+      }
+    }
+  }
+
+  // Prefer whole subtrees over the individual leaves inside them
+  candidates.sort(
+    (a, b) => countLeaves(b.fromNode) - countLeaves(a.fromNode) || b.confidence - a.confidence
+  );
+  const matches = pickMatches(candidates);
+  if (matches.length === 0) return changes;
+
+  const movedFrom = new Set(matches.map((m) => m.from));
+  const movedTo = new Set(matches.map((m) => m.to));
+  const result = changes.filter(
+    (c) =>
+      !(c.type === 'field_removed' && movedFrom.has(c.path)) &&
+      !(c.type === 'field_added' && movedTo.has(c.path))
+  );
+
+  for (const match of matches) {
+    const moved = change(
+      'field_moved',
+      match.from,
+      `Field likely moved: "${match.from}" → "${match.to}"`,
+      match.from,
+      match.to,
+      options
+    );
+    moved.confidence = round(match.confidence);
+    result.push(moved, ...diffNodes(match.fromNode, match.toNode, match.to, options));
+  }
+
+  return result;
+}
+
+/**
+ * Greedily accept pairs in the given order of preference, using each field
+ * (and anything nested in or around it) at most once.
+ */
+function pickMatches(candidates: FieldMatch[]): FieldMatch[] {
+  const picked: FieldMatch[] = [];
+
+  for (const candidate of candidates) {
+    const overlaps = picked.some(
+      (m) =>
+        m.from === candidate.from ||
+        m.to === candidate.to ||
+        isWithin(candidate.from, m.from) ||
+        isWithin(m.from, candidate.from) ||
+        isWithin(candidate.to, m.to) ||
+        isWithin(m.to, candidate.to)
+    );
+    if (!overlaps) picked.push(candidate);
+  }
+
+  return picked;
+}
+
+function collectMoveCandidates(
+  changes: DriftChange[],
+  type: 'field_removed' | 'field_added',
+  schema: SchemaNode,
+  basePath: string
+): Array<{ path: string; node: SchemaNode }> {
+  const candidates: Array<{ path: string; node: SchemaNode }> = [];
+
+  const walk = (path: string, node: SchemaNode, depth: number) => {
+    candidates.push({ path, node });
+    if (depth >= MAX_MOVE_DEPTH || !node.properties) return;
+    for (const [key, child] of Object.entries(node.properties)) {
+      walk(`${path}.${key}`, child, depth + 1);
+    }
+  };
+
+  for (const c of changes) {
+    if (c.type !== type) continue;
+    const node = resolvePath(schema, c.path, basePath);
+    if (node) walk(c.path, node, 0);
+  }
+
+  return candidates;
+}
+
+/**
+ * Find the node a change path points at, following the differ's path syntax
+ * (`a.b`, `items[]`, `users{}`, `payments[type=bank]`).
+ */
+function resolvePath(schema: SchemaNode, path: string, basePath: string): SchemaNode | undefined {
+  const relative = basePath && path.startsWith(basePath) ? path.slice(basePath.length) : path;
+  const tokens = relative.match(/\[\]|\{\}|\[[^\]=]+=[^\]]*\]|[^.[{]+/g) ?? [];
+
+  let node: SchemaNode | undefined = schema;
+  for (const token of tokens) {
+    if (!node) return undefined;
+    if (token === '[]') {
+      node = node.items;
+    } else if (token === '{}') {
+      node = mapValueSchema(node);
+    } else if (token.startsWith('[')) {
+      const value = token.slice(token.indexOf('=') + 1, -1);
+      const union: SchemaNode | undefined = node.type === 'array' ? node.items : node;
+      node = union?.oneOf?.find((v) => v.discriminatorValue === value);
+    } else {
+      node = node.properties?.[token];
+    }
+  }
+
+  return node;
+}
+
+function parentPath(path: string): string {
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(0, dot);
+}
+
+function leafName(path: string): string {
+  return path.slice(path.lastIndexOf('.') + 1);
+}
+
+/**
+ * Whether `path` lies strictly below `ancestor` (`a.b` is within `a`, `ab` is not).
+ */
+function isWithin(path: string, ancestor: string): boolean {
+  return path.length > ancestor.length && path.startsWith(ancestor) && /[.[{]/.test(path[ancestor.length]);
+}
+
+function round(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
+}
+
+// ─── Structural Similarity ──────────────────────────────────────────────────
+
+/**
+ * Compare the shape of two subtrees (0 = unrelated, 1 = identical). Objects
+ * are compared by the overlap of their flattened `path:type` leaves, so
+ * names and types of nested fields both count.
+ */
+function structuralSimilarity(a: SchemaNode, b: SchemaNode): number {
+  if (a.type !== b.type) return 0;
+
+  if (a.oneOf || b.oneOf) {
+    return typeLabel(a) === typeLabel(b) ? 1 : 0.5;
+  }
+
+  if (a.type === 'array') {
+    return a.items && b.items ? structuralSimilarity(a.items, b.items) : 1;
+  }
+
+  if (a.type === 'object') {
+    if (a.additionalProperties || b.additionalProperties) {
+      const aValues = mapValueSchema(a);
+      const bValues = mapValueSchema(b);
+      return aValues && bValues ? structuralSimilarity(aValues, bValues) * 0.9 : 0.5;
+    }
+
+    const aLeaves = leafSignatures(a);
+    const bLeaves = leafSignatures(b);
+    if (aLeaves.size === 0 && bLeaves.size === 0) return 1;
+
+    let shared = 0;
+    for (const leaf of aLeaves) if (bLeaves.has(leaf)) shared++;
+    return shared / (aLeaves.size + bLeaves.size - shared);
+  }
+
+  return a.format === b.format ? 1 : 0.7;
+}
+
+function leafSignatures(node: SchemaNode, prefix = '', out = new Set<string>()): Set<string> {
+  for (const [key, child] of Object.entries(node.properties ?? {})) {
+    const path = `${prefix}${key}`;
+    if (child.type === 'object' && child.properties && Object.keys(child.properties).length > 0) {
+      leafSignatures(child, `${path}.`, out);
+    } else {
+      out.add(`${path}:${typeLabel(child)}`);
+    }
+  }
+  return out;
+}
+
+function countLeaves(node: SchemaNode): number {
+  return node.type === 'object' ? leafSignatures(node).size : 1;
+}
+
+/**
+ * Name similarity (0–1): 1 for known rename patterns (plural, casing),
+ * 0.8 when one name contains the other (`zip` / `zipCode`), otherwise
+ * normalised edit distance.
+ */
+function nameSimilarity(a: string, b: string): number {
+  if (isSimilarName(a, b)) return 1;
+
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (na.length >= 3 && nb.length >= 3 && (na.includes(nb) || nb.includes(na))) return 0.8;
+
+  return 1 - levenshtein(na, nb) / Math.max(na.length, nb.length, 1);
+}
+
+function normalizeName(s: string): string {
+  return s
+    .replace(/([a-z])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[_-]/g, '');
+}
+
 /**
  * Check if two field names are "similar" (e.g., 'role' vs 'roles').
  */
@@ -105,12 +770,7 @@ function isSimilarName(a: string, b: string): boolean {
   if (lower_a + 'es' === lower_b || lower_b + 'es' === lower_a) return true;
 
   // CamelCase ↔ snake_case of same concept
-  const normalize = (s: string) =>
-    s
-      .replace(/([a-z])([A-Z])/g, '$1_$2')
-      .toLowerCase()
-      .replace(/[_-]/g, '');
-  if (normalize(a) === normalize(b)) return true;
+  if (normalizeName(a) === normalizeName(b)) return true;
 
   // Levenshtein distance ≤ 2 for short names
   if (a.length <= 8 && b.length <= 8 && levenshtein(lower_a, lower_b) <= 2) return true;
@@ -149,6 +809,10 @@ function calculateSchemaComplexity(schema: SchemaNode, depth: number = 0): numbe
 
   let complexity = 1; // Base complexity
 
+  if (schema.type === 'object' && schema.additionalProperties) {
+    complexity += calculateSchemaComplexity(schema.additionalProperties, depth + 1) * 0.3;
+  }
+
   if (schema.type === 'object' && schema.properties) {
     const fieldCount = Object.keys(schema.properties).length;
     complexity += fieldCount * 0.5; // Each field adds complexity
@@ -171,17 +835,115 @@ function calculateSchemaComplexity(schema: SchemaNode, depth: number = 0): numbe
 /**
  * Compare two schemas and return all detected changes.
  *
- * @param before - The previous/baseline schema
- * @param after  - The current/new schema
- * @param path   - Current JSON path (used for recursion)
+ * @param before  - The previous/baseline schema
+ * @param after   - The current/new schema
+ * @param path    - Current JSON path (used for recursion)
+ * @param options - Schema direction and tolerances for statistical drift (ranges, lengths)
  */
 export function diffSchemas(
   before: SchemaNode,
   after: SchemaNode,
-  path: string = ''
+  path: string = '',
+  options: DiffOptions = {}
+): DriftChange[] {
+  return detectMoves(diffNodes(before, after, path, options), before, after, path, options);
+}
+
+/**
+ * Compare two GraphQL response schemas (inferred from `graphqlSections`)
+ * section by section, so paths start with `data`, `errors` or `extensions`.
+ * Errors in a response whose baseline never had any are `errors_appeared`;
+ * `errors` and `extensions` disappearing is not drift.
+ */
+export function diffGraphqlSchemas(
+  before: SchemaNode,
+  after: SchemaNode,
+  options: DiffOptions = {}
+): DriftChange[] {
+  const changes: DriftChange[] = [];
+
+  for (const section of GRAPHQL_SECTIONS) {
+    const was = before.properties?.[section];
+    const now = after.properties?.[section];
+
+    if (was && now) {
+      changes.push(...diffSchemas(was, now, section, options));
+    } else if (now && section === 'errors') {
+      changes.push(
+        change(
+          'errors_appeared',
+          section,
+          `Response now contains errors (${typeLabel(now)}); the baseline had none`,
+          undefined,
+          typeLabel(now),
+          options
+        )
+      );
+    } else if (now) {
+      const label = typeLabel(now);
+      changes.push(change('field_added', section, `Field added: "${section}" (${label})`, undefined, label, options));
+    } else if (was && section === 'data') {
+      const label = typeLabel(was);
+      changes.push(change('field_removed', section, `Field removed: "${section}" (was: ${label})`, label, undefined, options));
+    }
+  }
+
+  return changes;
+}
+
+function diffNodes(
+  before: SchemaNode,
+  after: SchemaNode,
+  path: string,
+  options: DiffOptions
 ): DriftChange[] {
   const changes: DriftChange[] = [];
 
+  // A plain baseline that became a union: members are diffed as a one-member
+  // union, but consumers of the single type now get others, so it's a type change
+  if (isUnion(after) && !isUnion(before) && before.type !== 'null' && before.type !== 'unknown') {
+    const single: SchemaNode = { type: 'unknown', nullable: before.nullable, oneOf: [{ ...before, nullable: false }] };
+    const at = path || '(root)';
+    const memberChanges = diffNodes(single, after, path, options);
+    const widened = (c: DriftChange) =>
+      c.path === at && (c.type === 'union_member_added' || c.type === 'union_member_removed');
+    if (!memberChanges.some(widened)) return memberChanges;
+
+    return [
+      change(
+        'type_changed',
+        at,
+        `Type changed at "${at}" (${typeLabel(before)} → ${typeLabel(after)})`,
+        typeLabel(before),
+        typeLabel(after),
+        options
+      ),
+      ...memberChanges.filter((c) => !widened(c)),
+    ];
+  }
+
+  // Union on the baseline side: compare members, or the member a plain value fits
+  if (isUnion(before)) {
+    const member = isUnion(after) ? undefined : findUnionMember(before, after);
+    if (isUnion(after) || member) {
+      if (nullableDrifted(before, after, options)) {
+        changes.push(nullableChange(before, after, path, options));
+      }
+      if (member) {
+        // One sample only shows one member, so the others aren't "removed"
+        changes.push(...diffNodes({ ...member, nullable: after.nullable }, after, path, options));
+      } else {
+        changes.push(...diffUnions(before, after, path, options));
+      }
+      return changes;
+    }
+  }
+
+  // A null value for a field already known to be nullable is not drift
+  if (after.type === 'null' && before.nullable) {
+    return changes;
+  }
+
   // Type changed
   if (before.type !== after.type) {
     // Special case: nesting changed (e.g., string → object, or vice versa)
@@ -195,7 +957,8 @@ export function diffSchemas(
           path || '(root)',
           `Nesting changed at "${path || '(root)'}" (${typeLabel(before)} → ${typeLabel(after)})`,
           typeLabel(before),
-          typeLabel(after)
+          typeLabel(after),
+          options
         )
       );
     } else {
@@ -205,7 +968,8 @@ export function diffSchemas(
           path || '(root)',
           `Type changed at "${path || '(root)'}" (${typeLabel(before)} → ${typeLabel(after)})`,
           typeLabel(before),
-          typeLabel(after)
+          typeLabel(after),
+          options
         )
       );
     }
@@ -213,31 +977,86 @@ export function diffSchemas(
   }
 
   // Nullable changed
-  if (before.nullable !== after.nullable) {
-    changes.push(
-      change(
-        'nullable_changed',
-        path || '(root)',
-        `Nullable changed at "${path || '(root)'}" (${before.nullable ? 'nullable' : 'non-null'} → ${after.nullable ? 'nullable' : 'non-null'})`,
-        before.nullable ? 'nullable' : 'non-null',
-        after.nullable ? 'nullable' : 'non-null'
-      )
-    );
+  if (nullableDrifted(before, after, options)) {
+    changes.push(nullableChange(before, after, path, options));
   }
 
-  // Format changed
-  if (before.format !== after.format) {
+  // Format changed (a declared field without a format accepts any)
+  if ((before.format ?? null) !== (after.format ?? null) && !(options.declared && !before.format)) {
     changes.push(
       change(
         'format_changed',
         path || '(root)',
         `Format changed at "${path || '(root)'}" (${before.format || 'none'} → ${after.format || 'none'})`,
         before.format || 'none',
-        after.format || 'none'
+        after.format || 'none',
+        options
       )
     );
   }
 
+  // Enum values changed
+  if (before.enum && after.enum && isEnumLike(before, options)) {
+    const addedValues = after.enum.filter((v) => !before.enum!.includes(v));
+    if (addedValues.length > 0) {
+      changes.push(
+        change(
+          'enum_value_added',
+          path || '(root)',
+          `Enum value(s) added at "${path || '(root)'}": ${enumLabel(addedValues)}`,
+          enumLabel(before.enum),
+          enumLabel(after.enum),
+          options
+        )
+      );
+    }
+
+    // Only trust removals when the new side has also seen enough samples
+    if (isEnumLike(after, options)) {
+      const removedValues = before.enum.filter((v) => !after.enum!.includes(v));
+      if (removedValues.length > 0) {
+        changes.push(
+          change(
+            'enum_value_removed',
+            path || '(root)',
+            `Enum value(s) no longer observed at "${path || '(root)'}": ${enumLabel(removedValues)}`,
+            enumLabel(before.enum),
+            enumLabel(after.enum),
+            options
+          )
+        );
+      }
+    }
+  }
+
+  // Range / length changed
+  const rangeChange = detectRangeChange(before, after, path, options);
+  if (rangeChange) changes.push(rangeChange);
+
+  // Compare discriminated union variants
+  if (
+    before.type === 'object' &&
+    after.type === 'object' &&
+    (before.discriminator || after.discriminator)
+  ) {
+    changes.push(...diffVariants(before, after, path, options));
+    return changes;
+  }
+
+  // Compare map values (keys are data, so only the value shape matters)
+  if (
+    before.type === 'object' &&
+    after.type === 'object' &&
+    (before.additionalProperties || after.additionalProperties)
+  ) {
+    const beforeValues = mapValueSchema(before);
+    const afterValues = mapValueSchema(after);
+    if (beforeValues && afterValues) {
+      changes.push(...diffNodes(beforeValues, afterValues, path ? `${path}{}` : '{}', options));
+    }
+    return changes;
+  }
+
   // Compare object properties
   if (before.type === 'object' && after.type === 'object') {
     const beforeProps = before.properties || {};
@@ -248,9 +1067,9 @@ export function diffSchemas(
     const removedFields = new Map<string, SchemaNode>();
     const addedFields = new Map<string, SchemaNode>();
 
-    // Removed fields
+    // Removed fields (a declared optional field may simply be absent)
     for (const key of beforeKeys) {
-      if (!afterKeys.has(key)) {
+      if (!afterKeys.has(key) && !(options.declared && !before.required?.includes(key))) {
         removedFields.set(key, beforeProps[key]);
       }
     }
@@ -263,7 +1082,7 @@ export function diffSchemas(
     }
 
     // Detect possible renames
-    const renames = detectRenames(removedFields, addedFields, path);
+    const renames = detectRenames(removedFields, addedFields, path, options);
     const renamedBefore = new Set(renames.map((r) => r.before!));
     const renamedAfter = new Set(renames.map((r) => r.after!));
     changes.push(...renames);
@@ -278,32 +1097,37 @@ export function diffSchemas(
             fieldPath,
             `Field removed: "${fieldPath}" (was: ${typeLabel(schema)})`,
             typeLabel(schema),
-            undefined
+            undefined,
+            options
           )
         );
       }
     }
 
+    // Required changed
+    const beforeRequired = new Set(before.required || []);
+    const afterRequired = new Set(after.required || []);
+
     // Report remaining additions (not detected as renames)
     for (const [key, schema] of addedFields) {
       if (!renamedAfter.has(key)) {
         const fieldPath = path ? `${path}.${key}` : key;
-        changes.push(
-          change(
-            'field_added',
-            fieldPath,
-            `Field added: "${fieldPath}" (${typeLabel(schema)})`,
-            undefined,
-            typeLabel(schema)
-          )
+        const added = change(
+          'field_added',
+          fieldPath,
+          `Field added: "${fieldPath}" (${typeLabel(schema)})`,
+          undefined,
+          typeLabel(schema),
+          options
         );
+        // A new required request field rejects every existing client
+        if (options.direction === 'request' && afterRequired.has(key)) {
+          added.severity = 'breaking';
+        }
+        changes.push(added);
       }
     }
 
-    // Required changed
-    const beforeRequired = new Set(before.required || []);
-    const afterRequired = new Set(after.required || []);
-
     for (const key of beforeRequired) {
       if (afterKeys.has(key) && !afterRequired.has(key)) {
         const fieldPath = path ? `${path}.${key}` : key;
@@ -313,14 +1137,15 @@ export function diffSchemas(
             fieldPath,
             `Field "${fieldPath}" changed from required to optional`,
             'required',
-            'optional'
+            'optional',
+            options
           )
         );
       }
     }
 
     for (const key of afterRequired) {
-      if (beforeKeys.has(key) && !beforeRequired.has(key)) {
+      if (beforeKeys.has(key) && !beforeRequired.has(key) && !options.declared) {
         const fieldPath = path ? `${path}.${key}` : key;
         changes.push(
           change(
@@ -328,25 +1153,45 @@ export function diffSchemas(
             fieldPath,
             `Field "${fieldPath}" changed from optional to required`,
             'optional',
-            'required'
+            'required',
+            options
           )
         );
       }
     }
 
+    // Column order only carries meaning for tabular data (CSV/TSV)
+    if (before.ordered && after.ordered) {
+      const reordered = detectReorder(beforeProps, afterProps, path, options);
+      if (reordered) changes.push(reordered);
+    }
+
     // Recurse into shared fields
     for (const key of beforeKeys) {
       if (afterKeys.has(key)) {
         const fieldPath = path ? `${path}.${key}` : key;
-        changes.push(...diffSchemas(beforeProps[key], afterProps[key], fieldPath));
+        changes.push(...diffNodes(beforeProps[key], afterProps[key], fieldPath, options));
       }
     }
+
+    // Recurse into renamed fields under their new name
+    for (const rename of renames) {
+      const fieldPath = path ? `${path}.${rename.after}` : rename.after!;
+      changes.push(
+        ...diffNodes(beforeProps[rename.before!], afterProps[rename.after!], fieldPath, options)
+      );
+    }
   }
 
   // Compare array items
   if (before.type === 'array' && after.type === 'array') {
     if (before.items && after.items) {
-      const itemChanges = diffSchemas(before.items, after.items, path ? `${path}[]` : '[]');
+      const itemChanges = diffNodes(
+        before.items,
+        after.items,
+        path ? `${path}[]` : '[]',
+        options
+      );
       if (itemChanges.length > 0) {
         // Wrap item changes under array_items_changed if type changed
         const hasTypeChange = itemChanges.some(
@@ -359,7 +1204,8 @@ export function diffSchemas(
               path || '(root)',
               `Array items changed at "${path || '(root)'}" (${typeLabel(before.items)} → ${typeLabel(after.items)})`,
               typeLabel(before.items),
-              typeLabel(after.items)
+              typeLabel(after.items),
+              options
             )
           );
         } else {
@@ -377,7 +1223,8 @@ export function diffSchemas(
             path || '(root)',
             `Array homogeneity changed at "${path || '(root)'}" (${before.homogeneous ? 'homogeneous' : 'mixed'} → ${after.homogeneous ? 'homogeneous' : 'mixed'})`,
             before.homogeneous ? 'homogeneous' : 'mixed',
-            after.homogeneous ? 'homogeneous' : 'mixed'
+            after.homogeneous ? 'homogeneous' : 'mixed',
+            options
           )
         );
       }
@@ -6,7 +6,36 @@
  * and multi-sample learning (merging schemas from multiple responses).
  */
 
-import { SchemaNode, SchemaType, FormatHint } from './types';
+import { SchemaNode, SchemaType, FormatHint, InferOptions } from './types';
+
+// ─── Enum Tracking Limits ───────────────────────────────────────────────────
+
+const DEFAULT_MAX_ENUM_VALUES = 10;
+
+/** Strings longer than this are free text, never enum members */
+const MAX_ENUM_VALUE_LENGTH = 64;
+
+// ─── Map Detection ──────────────────────────────────────────────────────────
+
+/** Keys that look like data (IDs, dates) rather than field names */
+const DYNAMIC_KEY_PATTERNS: RegExp[] = [
+  /^\d+$/, // numeric ids
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, // uuids
+  /^\d{4}-\d{2}-\d{2}/, // dates and datetimes
+  /^[0-9a-f]{16,}$/i, // hex ids and hashes
+  // prefixed ids with a hex, ULID or uuid suffix (u_123, evt_9f3a2b, ord_01ARZ3NDEKTSV4RRFFQ69G5FAV)
+  /^[a-z]{1,5}_(?:(?=[0-9a-f]*\d)[0-9a-f]{3,}|[0-9a-hjkmnp-tv-z]{26}|[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12})$/i,
+];
+
+/** Objects with at least this many keys whose values are objects of one shape are maps */
+const MAP_KEY_THRESHOLD = 20;
+
+// ─── Discriminator Detection ────────────────────────────────────────────────
+
+/** Property names that conventionally tag a variant, tried first */
+const DISCRIMINATOR_HINTS = ['type', 'kind', '__typename', '_type', 'object', 'event'];
+
+const MAX_DISCRIMINATOR_VALUES = 10;
 
 // ─── Format Detection Patterns ──────────────────────────────────────────────
 
@@ -41,6 +70,14 @@ const FORMAT_PATTERNS: Array<{ format: FormatHint; pattern: RegExp }> = [
   },
 ];
 
+// ─── Ordered Keys ───────────────────────────────────────────────────────────
+
+/**
+ * Non-enumerable marker set by parsers whose key order carries meaning
+ * (CSV/TSV columns); objects carrying it infer to `ordered` nodes.
+ */
+export const ORDERED_KEYS = Symbol.for('api-schema-differentiator.orderedKeys');
+
 // ─── Type Detection ─────────────────────────────────────────────────────────
 
 function detectType(value: unknown): SchemaType {
@@ -67,12 +104,45 @@ function detectNumberFormat(value: number): FormatHint {
   return 'float';
 }
 
+function maxEnumValues(options: InferOptions): number {
+  return options.maxEnumValues ?? DEFAULT_MAX_ENUM_VALUES;
+}
+
+/**
+ * Union two observed value sets. Returns undefined once either side has
+ * stopped tracking values or the union exceeds the cardinality cap.
+ */
+function mergeEnumValues(
+  a: SchemaNode,
+  b: SchemaNode,
+  options: InferOptions
+): Array<string | number> | undefined {
+  if (!a.enum || !b.enum) return undefined;
+  const merged = [...a.enum];
+  for (const value of b.enum) {
+    if (!merged.includes(value)) merged.push(value);
+  }
+  return merged.length <= maxEnumValues(options) ? merged : undefined;
+}
+
+/**
+ * Combine two optional bounds; a bound missing on either side stays unknown.
+ */
+function mergeBound(
+  a: number | undefined,
+  b: number | undefined,
+  pick: (x: number, y: number) => number
+): number | undefined {
+  if (a === undefined || b === undefined) return undefined;
+  return pick(a, b);
+}
+
 // ─── Schema Inference ───────────────────────────────────────────────────────
 
 /**
  * Infer a SchemaNode from a single value.
  */
-export function inferSchema(value: unknown): SchemaNode {
+export function inferSchema(value: unknown, options: InferOptions = {}): SchemaNode {
   const type = detectType(value);
 
   switch (type) {
@@ -81,32 +151,46 @@ export function inferSchema(value: unknown): SchemaNode {
 
     case 'string': {
       const strVal = value as string;
-      return {
+      const node: SchemaNode = {
         type: 'string',
         nullable: false,
         format: detectFormat(strVal),
+        minLength: strVal.length,
+        maxLength: strVal.length,
         sampleCount: 1,
       };
+      // Formatted strings (ids, dates, emails) are never enum members
+      if (!node.format && strVal.length <= MAX_ENUM_VALUE_LENGTH && maxEnumValues(options) > 0) {
+        node.enum = [strVal];
+      }
+      return node;
     }
 
     case 'number': {
       const numVal = value as number;
-      return {
+      const node: SchemaNode = {
         type: 'number',
         nullable: false,
         format: detectNumberFormat(numVal),
+        minimum: numVal,
+        maximum: numVal,
         sampleCount: 1,
       };
+      // Numbers are usually measures, not codes
+      if (options.numericEnums && maxEnumValues(options) > 0) {
+        node.enum = [numVal];
+      }
+      return node;
     }
 
     case 'boolean':
       return { type: 'boolean', nullable: false, sampleCount: 1 };
 
     case 'array':
-      return inferArraySchema(value as unknown[]);
+      return inferArraySchema(value as unknown[], options);
 
     case 'object':
-      return inferObjectSchema(value as Record<string, unknown>);
+      return inferObjectSchema(value as Record<string, unknown>, options);
 
     default:
       return { type: 'unknown', nullable: false, sampleCount: 1 };
@@ -116,7 +200,7 @@ export function inferSchema(value: unknown): SchemaNode {
 /**
  * Infer schema for an array value.
  */
-function inferArraySchema(arr: unknown[]): SchemaNode {
+function inferArraySchema(arr: unknown[], options: InferOptions): SchemaNode {
   if (arr.length === 0) {
     return {
       type: 'array',
@@ -128,7 +212,7 @@ function inferArraySchema(arr: unknown[]): SchemaNode {
   }
 
   // Infer schema for each item
-  const itemSchemas = arr.map(inferSchema);
+  const itemSchemas = arr.map((item) => inferSchema(item, options));
 
   // Check homogeneity — are all items the same type?
   const types = new Set(itemSchemas.map((s) => s.type));
@@ -136,11 +220,14 @@ function inferArraySchema(arr: unknown[]): SchemaNode {
 
   // Merge all item schemas into one
   let mergedItems: SchemaNode;
-  if (homogeneous) {
-    mergedItems = itemSchemas.reduce((merged, schema) => mergeSchemas(merged, schema));
+  const discriminator = homogeneous ? detectDiscriminator(arr) : null;
+  if (discriminator) {
+    mergedItems = createDiscriminatedUnion(arr, itemSchemas, discriminator, options);
+  } else if (homogeneous) {
+    mergedItems = itemSchemas.reduce((merged, schema) => mergeSchemas(merged, schema, options));
   } else {
     // Heterogeneous: create a union
-    mergedItems = createUnionSchema(itemSchemas);
+    mergedItems = createUnionSchema(itemSchemas, options);
   }
 
   return {
@@ -152,24 +239,146 @@ function inferArraySchema(arr: unknown[]): SchemaNode {
   };
 }
 
+/**
+ * Find a string property that tags array items with distinct shapes
+ * (e.g. `{ type: 'card', last4 }` vs `{ type: 'bank', iban }`).
+ */
+function detectDiscriminator(arr: unknown[]): string | null {
+  const isPlainObject = (v: unknown) => typeof v === 'object' && v !== null && !Array.isArray(v);
+  if (arr.length < 2 || !arr.every(isPlainObject)) return null;
+  const items = arr as Array<Record<string, unknown>>;
+
+  const candidates = Object.keys(items[0]).filter((key) =>
+    items.every((item) => typeof item[key] === 'string')
+  );
+  candidates.sort((a, b) => hintRank(a) - hintRank(b));
+
+  for (const key of candidates) {
+    const groups = new Map<string, Set<string>>();
+    let consistent = true;
+
+    for (const item of items) {
+      const signature = Object.keys(item).sort().join(',');
+      const value = item[key] as string;
+      const seen = groups.get(value) ?? new Set<string>();
+      seen.add(signature);
+      groups.set(value, seen);
+      if (seen.size > 1) consistent = false;
+    }
+
+    if (groups.size < 2 || groups.size > MAX_DISCRIMINATOR_VALUES) continue;
+
+    // Variants must actually differ in shape
+    const shapes = new Set(
+      Array.from(groups.values()).map((sigs) =>
+        Array.from(new Set(Array.from(sigs).flatMap((s) => s.split(',')))).sort().join(',')
+      )
+    );
+    if (shapes.size < 2) continue;
+
+    // Unconventional names need stronger evidence: repeated values with stable shapes
+    if (hintRank(key) === DISCRIMINATOR_HINTS.length && (!consistent || groups.size === items.length)) {
+      continue;
+    }
+
+    return key;
+  }
+
+  return null;
+}
+
+function hintRank(key: string): number {
+  const idx = DISCRIMINATOR_HINTS.indexOf(key);
+  return idx === -1 ? DISCRIMINATOR_HINTS.length : idx;
+}
+
+/**
+ * Group item schemas by discriminator value and merge each group into a variant.
+ */
+function createDiscriminatedUnion(
+  arr: unknown[],
+  itemSchemas: SchemaNode[],
+  discriminator: string,
+  options: InferOptions
+): SchemaNode {
+  const groups = new Map<string, SchemaNode[]>();
+  arr.forEach((item, i) => {
+    const value = (item as Record<string, unknown>)[discriminator] as string;
+    groups.set(value, [...(groups.get(value) ?? []), itemSchemas[i]]);
+  });
+
+  const variants = Array.from(groups.entries()).map(([value, schemas]) => ({
+    ...mergeAll(schemas, options),
+    discriminatorValue: value,
+  }));
+
+  return {
+    type: 'object',
+    nullable: false,
+    discriminator,
+    oneOf: variants,
+    sampleCount: itemSchemas.length,
+  };
+}
+
 /**
  * Infer schema for an object value.
  */
-function inferObjectSchema(obj: Record<string, unknown>): SchemaNode {
+function inferObjectSchema(obj: Record<string, unknown>, options: InferOptions): SchemaNode {
   const properties: Record<string, SchemaNode> = {};
   const keys = Object.keys(obj);
 
   for (const key of keys) {
-    properties[key] = inferSchema(obj[key]);
+    properties[key] = inferSchema(obj[key], options);
   }
 
-  return {
+  if ((options.detectMaps ?? true) && isMapLike(keys, properties)) {
+    return {
+      type: 'object',
+      nullable: false,
+      additionalProperties: mergeAll(Object.values(properties), options),
+      sampleCount: 1,
+    };
+  }
+
+  const node: SchemaNode = {
     type: 'object',
     nullable: false,
     properties,
     required: keys, // On a single sample, all present keys are "required"
     sampleCount: 1,
   };
+  if ((obj as Record<symbol, unknown>)[ORDERED_KEYS]) node.ordered = true;
+  return node;
+}
+
+/**
+ * An object is a map when every key looks like an ID/date, or when it has
+ * many keys whose values are all objects of one shape. Wide records of
+ * primitives (and CSV rows) stay records, so a missing field is reported.
+ */
+function isMapLike(keys: string[], properties: Record<string, SchemaNode>): boolean {
+  if (keys.length === 0) return false;
+  if (keys.every((key) => DYNAMIC_KEY_PATTERNS.some((p) => p.test(key)))) return true;
+  if (keys.length < MAP_KEY_THRESHOLD) return false;
+
+  const values = Object.values(properties);
+  if (!values.every((node) => node.type === 'object' && node.properties)) return false;
+  return new Set(values.map((node) => Object.keys(node.properties!).sort().join(','))).size === 1;
+}
+
+function mergeAll(schemas: SchemaNode[], options: InferOptions): SchemaNode {
+  return schemas.reduce((merged, schema) => mergeSchemas(merged, schema, options));
+}
+
+/**
+ * The value schema of a map node, or the merged schema of a regular
+ * object's property values (undefined when it has none).
+ */
+export function mapValueSchema(node: SchemaNode, options: InferOptions = {}): SchemaNode | undefined {
+  if (node.additionalProperties) return node.additionalProperties;
+  const values = Object.values(node.properties || {});
+  return values.length > 0 ? mergeAll(values, options) : undefined;
 }
 
 // ─── Schema Merging (Multi-Sample Learning) ─────────────────────────────────
@@ -178,7 +387,7 @@ function inferObjectSchema(obj: Record<string, unknown>): SchemaNode {
  * Merge two schemas to learn from multiple samples.
  * This handles optional/required field detection, nullable drift, union types, etc.
  */
-export function mergeSchemas(a: SchemaNode, b: SchemaNode): SchemaNode {
+export function mergeSchemas(a: SchemaNode, b: SchemaNode, options: InferOptions = {}): SchemaNode {
   const sampleCount = (a.sampleCount || 1) + (b.sampleCount || 1);
 
   // If one is null, merge with the other making it nullable
@@ -192,13 +401,19 @@ export function mergeSchemas(a: SchemaNode, b: SchemaNode): SchemaNode {
     return { ...a, nullable: true, sampleCount };
   }
 
+  // Unions absorb the other side member by member
+  if (isUnion(a) || isUnion(b)) {
+    const union = createUnionSchema([...unionMembers(a), ...unionMembers(b)], options);
+    return { ...union, nullable: union.nullable || a.nullable || b.nullable, sampleCount };
+  }
+
   // If unknown, adopt the other
   if (a.type === 'unknown') return { ...b, sampleCount };
   if (b.type === 'unknown') return { ...a, sampleCount };
 
   // Different types -> union
   if (a.type !== b.type) {
-    return createUnionSchema([a, b]);
+    return createUnionSchema([a, b], options);
   }
 
   // Same type — merge specifics
@@ -209,20 +424,33 @@ export function mergeSchemas(a: SchemaNode, b: SchemaNode): SchemaNode {
     case 'number':
     case 'boolean': {
       const format = a.format === b.format ? a.format : null;
-      return { type: a.type, nullable, format, sampleCount };
+      const merged: SchemaNode = { type: a.type, nullable, format, sampleCount };
+      const values = mergeEnumValues(a, b, options);
+      if (values) merged.enum = values;
+
+      const minimum = mergeBound(a.minimum, b.minimum, Math.min);
+      const maximum = mergeBound(a.maximum, b.maximum, Math.max);
+      if (minimum !== undefined) merged.minimum = minimum;
+      if (maximum !== undefined) merged.maximum = maximum;
+
+      const minLength = mergeBound(a.minLength, b.minLength, Math.min);
+      const maxLength = mergeBound(a.maxLength, b.maxLength, Math.max);
+      if (minLength !== undefined) merged.minLength = minLength;
+      if (maxLength !== undefined) merged.maxLength = maxLength;
+      return merged;
     }
 
     case 'array': {
       const items =
         a.items && b.items
-          ? mergeSchemas(a.items, b.items)
+          ? mergeSchemas(a.items, b.items, options)
           : a.items || b.items || { type: 'unknown' as SchemaType, nullable: false };
       const homogeneous = (a.homogeneous ?? true) && (b.homogeneous ?? true) && items.type !== 'unknown';
       return { type: 'array', nullable, items, homogeneous, sampleCount };
     }
 
     case 'object': {
-      return mergeObjectSchemas(a, b, sampleCount);
+      return mergeObjectSchemas(a, b, sampleCount, options);
     }
 
     default:
@@ -233,7 +461,29 @@ export function mergeSchemas(a: SchemaNode, b: SchemaNode): SchemaNode {
 /**
  * Merge two object schemas, handling required/optional fields.
  */
-function mergeObjectSchemas(a: SchemaNode, b: SchemaNode, sampleCount: number): SchemaNode {
+function mergeObjectSchemas(
+  a: SchemaNode,
+  b: SchemaNode,
+  sampleCount: number,
+  options: InferOptions
+): SchemaNode {
+  if (a.discriminator || b.discriminator) {
+    return mergeDiscriminatedSchemas(a, b, sampleCount, options);
+  }
+
+  // A map on either side wins: fold named properties into the value schema
+  if (a.additionalProperties || b.additionalProperties) {
+    const values = [mapValueSchema(a, options), mapValueSchema(b, options)].filter(
+      (v): v is SchemaNode => v !== undefined
+    );
+    return {
+      type: 'object',
+      nullable: a.nullable || b.nullable,
+      additionalProperties: mergeAll(values, options),
+      sampleCount,
+    };
+  }
+
   const aProps = a.properties || {};
   const bProps = b.properties || {};
   const aRequired = new Set(a.required || []);
@@ -249,7 +499,7 @@ function mergeObjectSchemas(a: SchemaNode, b: SchemaNode, sampleCount: number):
 
     if (inA && inB) {
       // Present in both — merge the schemas
-      properties[key] = mergeSchemas(aProps[key], bProps[key]);
+      properties[key] = mergeSchemas(aProps[key], bProps[key], options);
       // Required only if required in both
       if (aRequired.has(key) && bRequired.has(key)) {
         required.push(key);
@@ -263,19 +513,117 @@ function mergeObjectSchemas(a: SchemaNode, b: SchemaNode, sampleCount: number):
     }
   }
 
-  return {
+  const merged: SchemaNode = {
     type: 'object',
     nullable: a.nullable || b.nullable,
     properties,
     required,
     sampleCount,
   };
+  if (a.ordered || b.ordered) merged.ordered = true;
+  return merged;
+}
+
+/**
+ * Merge where at least one side is a discriminated union, variant by variant.
+ * Falls back to a plain object when a side can't be split by the discriminator.
+ */
+function mergeDiscriminatedSchemas(
+  a: SchemaNode,
+  b: SchemaNode,
+  sampleCount: number,
+  options: InferOptions
+): SchemaNode {
+  const discriminator = (a.discriminator ?? b.discriminator)!;
+  const aVariants = splitVariants(a, discriminator);
+  const bVariants = splitVariants(b, discriminator);
+
+  if (!aVariants || !bVariants) {
+    return mergeObjectSchemas(flattenVariants(a, options), flattenVariants(b, options), sampleCount, options);
+  }
+
+  const variants = new Map(aVariants);
+  for (const [value, variant] of bVariants) {
+    const existing = variants.get(value);
+    variants.set(value, existing ? mergeSchemas(existing, variant, options) : variant);
+  }
+
+  return {
+    type: 'object',
+    nullable: a.nullable || b.nullable,
+    discriminator,
+    oneOf: Array.from(variants.entries()).map(([value, variant]) => ({
+      ...variant,
+      discriminatorValue: value,
+    })),
+    sampleCount,
+  };
+}
+
+/**
+ * Variants of a node keyed by discriminator value. A plain object counts as a
+ * single variant when its discriminator property has one observed value.
+ */
+export function splitVariants(node: SchemaNode, discriminator: string): Map<string, SchemaNode> | null {
+  if (node.discriminator) {
+    if (node.discriminator !== discriminator || !node.oneOf) return null;
+    return new Map(node.oneOf.map((v) => [v.discriminatorValue ?? '', v]));
+  }
+
+  const values = node.properties?.[discriminator]?.enum;
+  if (values && values.length === 1 && typeof values[0] === 'string') {
+    return new Map([[values[0], node]]);
+  }
+  return null;
+}
+
+/**
+ * Collapse a discriminated union back into one object (variant-only fields become optional).
+ */
+export function flattenVariants(node: SchemaNode, options: InferOptions = {}): SchemaNode {
+  if (!node.discriminator || !node.oneOf || node.oneOf.length === 0) return node;
+  const merged = node.oneOf
+    .map(({ discriminatorValue: _value, ...variant }) => variant as SchemaNode)
+    .reduce((acc, v) => mergeSchemas(acc, v, options));
+  return { ...merged, nullable: node.nullable, sampleCount: node.sampleCount };
+}
+
+/**
+ * Whether a node is a plain (non-discriminated) union of types.
+ */
+export function isUnion(node: SchemaNode): boolean {
+  return node.oneOf !== undefined && !node.discriminator;
+}
+
+/**
+ * A plain union with same-typed members (`integer` and `number`,
+ * `string<email>` and `string`) merged, so every value matches exactly one
+ * member, as exported `oneOf`s require. A single remaining member replaces
+ * the union.
+ */
+export function collapseUnion(node: SchemaNode, options: InferOptions = {}): SchemaNode {
+  if (!isUnion(node)) return node;
+
+  const byType = new Map<SchemaType, SchemaNode>();
+  for (const member of node.oneOf!) {
+    const existing = byType.get(member.type);
+    byType.set(member.type, existing ? mergeSchemas(existing, member, options) : member);
+  }
+
+  const members = [...byType.values()];
+  if (members.length === node.oneOf!.length) return node;
+  if (members.length === 1) return { ...members[0], nullable: node.nullable || members[0].nullable };
+  return { ...node, oneOf: members };
+}
+
+function unionMembers(node: SchemaNode): SchemaNode[] {
+  return isUnion(node) ? node.oneOf! : [node];
 }
 
 /**
  * Create a union (oneOf) schema from multiple schemas.
  */
-function createUnionSchema(schemas: SchemaNode[]): SchemaNode {
+function createUnionSchema(schemas: SchemaNode[], options: InferOptions): SchemaNode {
   // Deduplicate by type
   const typeMap = new Map<string, SchemaNode>();
   let nullable = false;
@@ -287,7 +635,7 @@ function createUnionSchema(schemas: SchemaNode[]): SchemaNode {
     }
     const key = schema.type + (schema.format ? `:${schema.format}` : '');
     if (typeMap.has(key)) {
-      typeMap.set(key, mergeSchemas(typeMap.get(key)!, schema));
+      typeMap.set(key, mergeSchemas(typeMap.get(key)!, schema, options));
     } else {
       typeMap.set(key, schema);
     }
@@ -318,6 +666,13 @@ export function schemaToString(schema: SchemaNode, indent: number = 0): string {
   const pad = '  '.repeat(indent);
   let result = '';
 
+  if (schema.oneOf && schema.discriminator) {
+    const variants = schema.oneOf.map((s) => `${schema.discriminator}=${s.discriminatorValue}`).join(' | ');
+    result += `${pad}oneOf(${variants})`;
+    if (schema.nullable) result += ' (nullable)';
+    return result;
+  }
+
   if (schema.oneOf) {
     const types = schema.oneOf.map((s) => s.type).join(' | ');
     result += `${pad}oneOf(${types})`;
@@ -329,6 +684,11 @@ export function schemaToString(schema: SchemaNode, indent: number = 0): string {
   if (schema.format) result += `<${schema.format}>`;
   if (schema.nullable) result += ' (nullable)';
 
+  if (schema.type === 'object' && schema.additionalProperties) {
+    result += ` {\n${pad}  [key]: ${schemaToString(schema.additionalProperties, indent + 1).trimStart()}\n${pad}}`;
+    return result;
+  }
+
   if (schema.type === 'object' && schema.properties) {
     result += ' {\n';
     const req = new Set(schema.required || []);
@@ -0,0 +1,134 @@
+/**
+ * Volatile Field Masking
+ *
+ * Prunes fields matching ignore patterns (e.g. 'debug', '**.traceId',
+ * 'items[]._links') from samples before inference, and from stored schemas
+ * before diffing, so they never take part in either.
+ * Patterns use the same path syntax and globs as severity rules.
+ */
+
+import { SchemaNode } from './types';
+import { matchPath } from './rules';
+
+/**
+ * Return a copy of the schema without the nodes matched by any pattern.
+ */
+export function pruneSchema(schema: SchemaNode, patterns: string[]): SchemaNode {
+  if (patterns.length === 0) return schema;
+  return pruneNode(schema, [''], patterns);
+}
+
+/**
+ * Return a copy of sample data without the fields matched by any pattern,
+ * so ignored fields cannot shape inference (map detection, unions, enums).
+ */
+export function pruneData(data: unknown, patterns: string[]): unknown {
+  if (patterns.length === 0) return data;
+  return pruneValue(data, [''], patterns, discriminatorFields(patterns));
+}
+
+/**
+ * Merge ignore pattern lists, dropping duplicates and keeping order.
+ */
+export function mergeIgnorePatterns(...lists: Array<string[] | undefined>): string[] {
+  return Array.from(new Set(lists.flatMap((list) => list ?? [])));
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function join(base: string, key: string): string {
+  return base ? `${base}.${key}` : key;
+}
+
+function matchesAny(paths: string[], patterns: string[]): boolean {
+  return paths.some((p) => patterns.some((pattern) => matchPath(pattern, p)));
+}
+
+/** Fields named in variant segments such as `payments[type=card]` */
+function discriminatorFields(patterns: string[]): string[] {
+  return Array.from(new Set(patterns.flatMap((p) => Array.from(p.matchAll(/\[([^=\]]+)=/g), (m) => m[1]))));
+}
+
+/**
+ * Walk a sample value. Inference may turn an object into a map entry
+ * (`users{}`) or a discriminated variant (`payments[type=card]`), so those
+ * path forms are tested too — only when some pattern uses them.
+ */
+function pruneValue(value: unknown, paths: string[], patterns: string[], discriminators: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => pruneValue(item, paths.map((p) => `${p}[]`), patterns, discriminators));
+  }
+  if (value === null || typeof value !== 'object') return value;
+
+  const record = value as Record<string, unknown>;
+  const objectPaths = [...paths];
+  for (const field of discriminators) {
+    if (typeof record[field] !== 'string') continue;
+    for (const p of paths) {
+      const base = p.endsWith('[]') ? p.slice(0, -2) : p;
+      objectPaths.push(`${base}[${field}=${record[field]}]`);
+    }
+  }
+  const mapPaths = patterns.some((p) => p.includes('{}')) ? objectPaths.map((p) => `${p}{}`) : [];
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(record)) {
+    const childPaths = objectPaths.map((p) => join(p, key));
+    if (matchesAny(childPaths, patterns)) continue;
+    result[key] = pruneValue(child, [...childPaths, ...mapPaths], patterns, discriminators);
+  }
+  return result;
+}
+
+/**
+ * Walk a node. A node can be reached by more than one path — discriminated
+ * variants answer to both `payments[]` and `payments[type=card]` — so each
+ * candidate path is tested.
+ */
+function pruneNode(node: SchemaNode, paths: string[], patterns: string[]): SchemaNode {
+  const result: SchemaNode = { ...node };
+
+  if (node.properties) {
+    const properties: Record<string, SchemaNode> = {};
+    const removed = new Set<string>();
+
+    for (const [key, child] of Object.entries(node.properties)) {
+      const childPaths = paths.map((p) => join(p, key));
+      if (matchesAny(childPaths, patterns)) {
+        removed.add(key);
+        continue;
+      }
+      properties[key] = pruneNode(child, childPaths, patterns);
+    }
+
+    result.properties = properties;
+    if (node.required) {
+      result.required = node.required.filter((key) => !removed.has(key));
+    }
+  }
+
+  if (node.items) {
+    result.items = pruneNode(node.items, paths.map((p) => `${p}[]`), patterns);
+  }
+
+  if (node.additionalProperties) {
+    result.additionalProperties = pruneNode(
+      node.additionalProperties,
+      paths.map((p) => `${p}{}`),
+      patterns
+    );
+  }
+
+  if (node.oneOf) {
+    result.oneOf = node.oneOf.map((member) => {
+      if (!node.discriminator) return pruneNode(member, paths, patterns);
+      const variantPaths = paths.flatMap((p) => {
+        const base = p.endsWith('[]') ? p.slice(0, -2) : p;
+        return [p, `${base}[${node.discriminator}=${member.discriminatorValue}]`];
+      });
+      return pruneNode(member, variantPaths, patterns);
+    });
+  }
+
+  return result;
+}
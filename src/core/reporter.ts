@@ -6,7 +6,30 @@
  */
 
 import chalk from 'chalk';
-import { DriftReport, DriftChange, ReportFormat, DriftSeverity } from './types';
+import {
+  DriftReport,
+  DriftChange,
+  ReportFormat,
+  DriftSeverity,
+  SpecDiffReport,
+  HarReport,
+  GraphqlSchemaDiffReport,
+} from './types';
+
+/**
+ * A report made of one DriftReport per operation, endpoint or type, rendered with
+ * a section per changed group.
+ */
+interface GroupedReport {
+  title: string;
+  label: string;
+  subtitle: string;
+  noun: string;
+  timestamp: string;
+  groups: DriftReport[];
+  totals: Pick<DriftReport, 'summary' | 'compatibilityScore'>;
+  skipped: string[];
+}
 
 // ─── Severity Icons & Colors ────────────────────────────────────────────────
 
@@ -42,6 +65,77 @@ export function formatReport(report: DriftReport, format: ReportFormat): string
   }
 }
 
+/**
+ * Format an OpenAPI spec diff (one section per changed operation) in the specified format.
+ */
+export function formatSpecReport(report: SpecDiffReport, format: ReportFormat): string {
+  if (format === 'json') return formatJson(report);
+  return formatGrouped(
+    {
+      title: 'OpenAPI Diff',
+      label: 'Version',
+      subtitle: `${report.previousVersion ?? '?'} → ${report.currentVersion ?? '?'}`,
+      noun: 'operation',
+      timestamp: report.timestamp,
+      groups: report.operations,
+      totals: report,
+      skipped: [],
+    },
+    format
+  );
+}
+
+/**
+ * Format a GraphQL schema diff (one section per changed type) in the specified format.
+ */
+export function formatGraphqlSchemaReport(report: GraphqlSchemaDiffReport, format: ReportFormat): string {
+  if (format === 'json') return formatJson(report);
+  return formatGrouped(
+    {
+      title: 'GraphQL Schema Diff',
+      label: 'Schema',
+      subtitle: `${report.before ?? '?'} → ${report.after ?? '?'}`,
+      noun: 'type',
+      timestamp: report.timestamp,
+      groups: report.types,
+      totals: report,
+      skipped: [],
+    },
+    format
+  );
+}
+
+/**
+ * Format a HAR check (one section per changed endpoint) in the specified format.
+ */
+export function formatHarReport(report: HarReport, format: ReportFormat): string {
+  if (format === 'json') return formatJson(report);
+  return formatGrouped(
+    {
+      title: 'HAR Check',
+      label: 'Source',
+      subtitle: report.source ?? 'HAR recording',
+      noun: 'endpoint',
+      timestamp: report.timestamp,
+      groups: report.endpoints,
+      totals: report,
+      skipped: report.skipped.map((s) => `${s.entry} (${s.reason})`),
+    },
+    format
+  );
+}
+
+function formatGrouped(report: GroupedReport, format: ReportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return formatGroupedMarkdown(report);
+    case 'html':
+      return formatGroupedHtml(report);
+    default:
+      return formatGroupedConsole(report);
+  }
+}
+
 // ─── Console Format ─────────────────────────────────────────────────────────
 
 function formatConsole(report: DriftReport): string {
@@ -55,34 +149,66 @@ function formatConsole(report: DriftReport): string {
   if (report.changes.length === 0) {
     lines.push(chalk.green('  ✅ No schema drift detected'));
   } else {
-    // Sort: breaking first, then warning, then info
-    const sorted = [...report.changes].sort((a, b) => {
-      const order: Record<DriftSeverity, number> = { breaking: 0, warning: 1, info: 2 };
-      return order[a.severity] - order[b.severity];
-    });
-
-    for (const change of sorted) {
-      const icon = SEVERITY_ICON[change.severity];
-      const label = SEVERITY_LABEL[change.severity].padEnd(8);
-      const colorFn =
-        change.severity === 'breaking'
-          ? chalk.red
-          : change.severity === 'warning'
-            ? chalk.yellow
-            : chalk.green;
-
-      lines.push(`${icon} ${colorFn(label)} ${change.message}`);
-    }
+    lines.push(...consoleChangeLines(report.changes));
   }
 
   lines.push(chalk.gray(bar));
+  lines.push(...consoleSummaryLines(report));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+function consoleChangeLines(changes: DriftChange[]): string[] {
+  return sortBySeverity(changes).map((change) => {
+    const icon = SEVERITY_ICON[change.severity];
+    const label = SEVERITY_LABEL[change.severity].padEnd(8);
+    const colorFn =
+      change.severity === 'breaking'
+        ? chalk.red
+        : change.severity === 'warning'
+          ? chalk.yellow
+          : chalk.green;
+
+    return `${icon} ${colorFn(label)} ${changeMessage(change)}`;
+  });
+}
 
-  // Summary
+function consoleSummaryLines(report: Pick<DriftReport, 'summary' | 'compatibilityScore'>): string[] {
   const { breaking, warning, info } = report.summary;
-  lines.push(
-    `Summary: ${chalk.red(`${breaking} breaking`)} | ${chalk.yellow(`${warning} warnings`)} | ${chalk.green(`${info} info`)}`
-  );
-  lines.push(`Compatibility Score: ${scoreColor(report.compatibilityScore)}`);
+  return [
+    `Summary: ${chalk.red(`${breaking} breaking`)} | ${chalk.yellow(`${warning} warnings`)} | ${chalk.green(`${info} info`)}`,
+    `Compatibility Score: ${scoreColor(report.compatibilityScore)}`,
+  ];
+}
+
+function formatGroupedConsole(report: GroupedReport): string {
+  const lines: string[] = [];
+  const bar = '━'.repeat(50);
+  const changed = report.groups.filter((group) => group.changes.length > 0);
+
+  lines.push('');
+  lines.push(chalk.bold(`🔍 ${report.title}: ${report.subtitle}`));
+  lines.push(chalk.gray(bar));
+
+  if (changed.length === 0) {
+    lines.push(chalk.green('  ✅ No schema drift detected'));
+  }
+  for (const group of changed) {
+    lines.push(chalk.bold(group.key));
+    lines.push(...consoleChangeLines(group.changes).map((line) => `  ${line}`));
+  }
+
+  const unchanged = report.groups.length - changed.length;
+  if (changed.length > 0 && unchanged > 0) {
+    lines.push(chalk.gray(`${unchanged} ${report.noun}(s) unchanged`));
+  }
+  if (report.skipped.length > 0) {
+    lines.push(chalk.gray(`${report.skipped.length} entr${report.skipped.length === 1 ? 'y' : 'ies'} skipped`));
+  }
+
+  lines.push(chalk.gray(bar));
+  lines.push(...consoleSummaryLines(report.totals));
   lines.push('');
 
   return lines.join('\n');
@@ -96,7 +222,7 @@ function scoreColor(score: number): string {
 
 // ─── JSON Format ────────────────────────────────────────────────────────────
 
-function formatJson(report: DriftReport): string {
+function formatJson(report: DriftReport | SpecDiffReport | HarReport | GraphqlSchemaDiffReport): string {
   return JSON.stringify(report, null, 2);
 }
 
@@ -124,7 +250,7 @@ function formatMarkdown(report: DriftReport): string {
     lines.push('## 🔴 Breaking Changes');
     lines.push('');
     for (const c of grouped.breaking) {
-      lines.push(`- **${c.path}**: ${c.message}`);
+      lines.push(`- **${c.path}**: ${changeMessage(c)}`);
       if (c.before || c.after) {
         lines.push(`  - Before: \`${c.before || 'N/A'}\` → After: \`${c.after || 'N/A'}\``);
       }
@@ -136,7 +262,7 @@ function formatMarkdown(report: DriftReport): string {
     lines.push('## 🟡 Warnings');
     lines.push('');
     for (const c of grouped.warning) {
-      lines.push(`- **${c.path}**: ${c.message}`);
+      lines.push(`- **${c.path}**: ${changeMessage(c)}`);
       if (c.before || c.after) {
         lines.push(`  - Before: \`${c.before || 'N/A'}\` → After: \`${c.after || 'N/A'}\``);
       }
@@ -148,7 +274,7 @@ function formatMarkdown(report: DriftReport): string {
     lines.push('## 🟢 Info');
     lines.push('');
     for (const c of grouped.info) {
-      lines.push(`- **${c.path}**: ${c.message}`);
+      lines.push(`- **${c.path}**: ${changeMessage(c)}`);
     }
     lines.push('');
   }
@@ -162,31 +288,58 @@ function formatMarkdown(report: DriftReport): string {
   return lines.join('\n');
 }
 
-// ─── HTML Format ────────────────────────────────────────────────────────────
+function formatGroupedMarkdown(report: GroupedReport): string {
+  const lines: string[] = [];
+  const changed = report.groups.filter((group) => group.changes.length > 0);
+  const { summary, compatibilityScore } = report.totals;
 
-function formatHtml(report: DriftReport): string {
-  const grouped = groupBySeverity(report.changes);
+  lines.push(`# 🔍 ${report.title} Report`);
+  lines.push('');
+  lines.push(`**Timestamp:** ${report.timestamp}`);
+  lines.push(`**${report.label}:** ${report.subtitle}`);
+  lines.push(`**Compatibility Score:** ${compatibilityScore}%`);
+  lines.push('');
 
-  const changeRows = report.changes
-    .map(
-      (c) => `
-    <tr class="severity-${c.severity}">
-      <td><span class="badge badge-${c.severity}">${SEVERITY_LABEL[c.severity]}</span></td>
-      <td><code>${escapeHtml(c.path)}</code></td>
-      <td>${escapeHtml(c.message)}</td>
-      <td>${c.before ? `<code>${escapeHtml(c.before)}</code>` : '—'}</td>
-      <td>${c.after ? `<code>${escapeHtml(c.after)}</code>` : '—'}</td>
-    </tr>`
-    )
-    .join('\n');
+  if (changed.length === 0) {
+    lines.push('✅ **No schema drift detected**');
+  }
 
-  return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Schema Drift Report — ${escapeHtml(report.key)}</title>
-  <style>
+  for (const group of changed) {
+    lines.push(`## ${group.key}`);
+    lines.push('');
+    for (const c of sortBySeverity(group.changes)) {
+      lines.push(`- ${SEVERITY_ICON[c.severity]} **${c.path}**: ${changeMessage(c)}`);
+    }
+    lines.push('');
+  }
+
+  if (report.skipped.length > 0) {
+    if (changed.length === 0) lines.push('');
+    lines.push(`<details><summary>${report.skipped.length} skipped entr${report.skipped.length === 1 ? 'y' : 'ies'}</summary>`);
+    lines.push('');
+    lines.push(...report.skipped.map((entry) => `- ${entry}`));
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  if (changed.length === 0) {
+    return lines.join('\n').trimEnd();
+  }
+
+  lines.push('---');
+  lines.push('');
+  lines.push(
+    `**Summary:** ${summary.breaking} breaking | ${summary.warning} warnings | ${summary.info} info ` +
+      `across ${changed.length} of ${report.groups.length} ${report.noun}(s)`
+  );
+
+  return lines.join('\n');
+}
+
+// ─── HTML Format ────────────────────────────────────────────────────────────
+
+const HTML_STYLE = `  <style>
     :root {
       --red: #ef4444; --yellow: #f59e0b; --green: #22c55e;
       --bg: #0f172a; --surface: #1e293b; --text: #e2e8f0; --muted: #94a3b8;
@@ -216,7 +369,31 @@ function formatHtml(report: DriftReport): string {
     .badge-warning { background: rgba(245,158,11,0.2); color: var(--yellow); }
     .badge-info { background: rgba(34,197,94,0.2); color: var(--green); }
     .no-drift { text-align: center; padding: 3rem; color: var(--green); font-size: 1.2rem; }
-  </style>
+  </style>`;
+
+function formatHtml(report: DriftReport): string {
+  const grouped = groupBySeverity(report.changes);
+
+  const changeRows = report.changes
+    .map(
+      (c) => `
+    <tr class="severity-${c.severity}">
+      <td><span class="badge badge-${c.severity}">${SEVERITY_LABEL[c.severity]}</span></td>
+      <td><code>${escapeHtml(c.path)}</code></td>
+      <td>${escapeHtml(changeMessage(c))}</td>
+      <td>${c.before ? `<code>${escapeHtml(c.before)}</code>` : '—'}</td>
+      <td>${c.after ? `<code>${escapeHtml(c.after)}</code>` : '—'}</td>
+    </tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Schema Drift Report — ${escapeHtml(report.key)}</title>
+${HTML_STYLE}
 </head>
 <body>
   <div class="container">
@@ -261,8 +438,93 @@ function formatHtml(report: DriftReport): string {
 </html>`;
 }
 
+function formatGroupedHtml(report: GroupedReport): string {
+  const { summary, compatibilityScore } = report.totals;
+  const rows = report.groups
+    .flatMap((group) =>
+      sortBySeverity(group.changes).map(
+        (c) => `
+    <tr class="severity-${c.severity}">
+      <td><span class="badge badge-${c.severity}">${SEVERITY_LABEL[c.severity]}</span></td>
+      <td><code>${escapeHtml(group.key)}</code></td>
+      <td><code>${escapeHtml(c.path)}</code></td>
+      <td>${escapeHtml(changeMessage(c))}</td>
+    </tr>`
+      )
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${report.title} Report — ${escapeHtml(report.subtitle)}</title>
+${HTML_STYLE}
+</head>
+<body>
+  <div class="container">
+    <h1>🔍 ${report.title} Report</h1>
+    <div class="meta">
+      ${escapeHtml(report.subtitle)} · ${report.groups.length} ${report.noun}(s)${
+        report.skipped.length > 0 ? ` · ${report.skipped.length} skipped` : ''
+      } · ${escapeHtml(report.timestamp)}
+    </div>
+
+    <div class="summary">
+      <div class="summary-card breaking">
+        <div class="count">${summary.breaking}</div>
+        <div class="label">Breaking</div>
+      </div>
+      <div class="summary-card warning">
+        <div class="count">${summary.warning}</div>
+        <div class="label">Warnings</div>
+      </div>
+      <div class="summary-card info">
+        <div class="count">${summary.info}</div>
+        <div class="label">Info</div>
+      </div>
+      <div class="summary-card">
+        <div class="score ${compatibilityScore >= 90 ? 'high' : compatibilityScore >= 70 ? 'mid' : 'low'}">${compatibilityScore}%</div>
+        <div class="label">Compatibility</div>
+      </div>
+    </div>
+
+    ${
+      rows.length === 0
+        ? '<div class="no-drift">✅ No schema drift detected</div>'
+        : `<table>
+      <thead>
+        <tr><th>Severity</th><th>${capitalize(report.noun)}</th><th>Path</th><th>Change</th></tr>
+      </thead>
+      <tbody>
+        ${rows}
+      </tbody>
+    </table>`
+    }
+  </div>
+</body>
+</html>`;
+}
+
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
+/**
+ * Change message, with the confidence of heuristic matches (e.g. "likely renamed … (92%)").
+ */
+function changeMessage(c: DriftChange): string {
+  return c.confidence !== undefined ? `${c.message} (${Math.round(c.confidence * 100)}%)` : c.message;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function sortBySeverity(changes: DriftChange[]): DriftChange[] {
+  const order: Record<DriftSeverity, number> = { breaking: 0, warning: 1, info: 2 };
+  return [...changes].sort((a, b) => order[a.severity] - order[b.severity]);
+}
+
 function groupBySeverity(changes: DriftChange[]): Record<DriftSeverity, DriftChange[]> {
   return {
     breaking: changes.filter((c) => c.severity === 'breaking'),
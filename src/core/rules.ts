@@ -0,0 +1,124 @@
+/**
+ * Severity Rules Engine
+ *
+ * Overrides the default severity of drift changes (or suppresses them)
+ * based on the schema key, the change path and the drift type.
+ * Rules are evaluated in order; the last matching rule wins.
+ */
+
+import * as fs from 'fs';
+import { DriftChange, DriftSeverity, DriftType, SeverityRule } from './types';
+
+const SEVERITIES: Array<DriftSeverity | 'ignore'> = ['breaking', 'warning', 'info', 'ignore'];
+
+// ─── Glob Matching ──────────────────────────────────────────────────────────
+
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a key against a glob where `*` matches any run of characters
+ * and `?` a single character (e.g. 'GET /internal/*').
+ */
+export function matchKey(pattern: string, key: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.split('?').map(escapeRegExp).join('.'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(key);
+}
+
+/**
+ * Match a change path against a path glob using the differ's path syntax
+ * (`user.address`, `tags[]`, `users{}`, `payments[type=bank]`).
+ *
+ * `*` matches within one segment, `**` across segments. A pattern also
+ * matches everything nested below it, so `meta.debug` covers `meta.debug.trace`.
+ * Every other character, `?` included, matches literally.
+ */
+export function matchPath(pattern: string, path: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern.startsWith('**.', i)) {
+      // Zero or more leading segments, so '**.id' also matches a root 'id'
+      source += '(?:.*\\.)?';
+      i += 2;
+    } else if (pattern.startsWith('**', i)) {
+      source += '.*';
+      i++;
+    } else if (pattern[i] === '*') {
+      source += '[^.\\[\\]{}]*';
+    } else {
+      source += escapeRegExp(pattern[i]);
+    }
+  }
+  return new RegExp(`^${source}(?:$|[.\\[{])`).test(path);
+}
+
+// ─── Rule Application ───────────────────────────────────────────────────────
+
+function ruleMatches(rule: SeverityRule, key: string, change: DriftChange): boolean {
+  if (rule.key !== undefined && !matchKey(rule.key, key)) return false;
+  if (rule.path !== undefined && !matchPath(rule.path, change.path)) return false;
+  if (rule.type !== undefined) {
+    const types: DriftType[] = Array.isArray(rule.type) ? rule.type : [rule.type];
+    if (!types.includes(change.type)) return false;
+  }
+  return true;
+}
+
+/**
+ * Apply severity rules to a list of changes for a key.
+ * Changes whose final rule says 'ignore' are dropped.
+ */
+export function applySeverityRules(
+  changes: DriftChange[],
+  rules: SeverityRule[],
+  key: string
+): DriftChange[] {
+  if (rules.length === 0) return changes;
+
+  const result: DriftChange[] = [];
+  for (const c of changes) {
+    let severity: DriftSeverity | 'ignore' = c.severity;
+    for (const rule of rules) {
+      if (ruleMatches(rule, key, c)) severity = rule.severity;
+    }
+    if (severity === 'ignore') continue;
+    result.push(severity === c.severity ? c : { ...c, severity });
+  }
+  return result;
+}
+
+// ─── Rules File ─────────────────────────────────────────────────────────────
+
+/**
+ * Load severity rules from a JSON file. Accepts either an array of rules
+ * or an object with a `rules` array.
+ */
+export function loadRulesFile(filePath: string): SeverityRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read rules file "${filePath}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const rules = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`Rules file "${filePath}" must contain an array of rules or a "rules" array`);
+  }
+
+  rules.forEach((rule, i) => {
+    if (!SEVERITIES.includes((rule as SeverityRule)?.severity)) {
+      throw new Error(
+        `Rule #${i + 1} in "${filePath}" has invalid severity (expected one of: ${SEVERITIES.join(', ')})`
+      );
+    }
+  });
+
+  return rules as SeverityRule[];
+}
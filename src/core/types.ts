@@ -46,6 +46,12 @@ export interface SchemaNode {
   /** For objects: which keys are required (present in every sample) */
   required?: string[];
 
+  /** For objects: whether property order is significant (CSV/TSV columns) */
+  ordered?: boolean;
+
+  /** For map-like objects keyed by dynamic IDs: schema shared by every value */
+  additionalProperties?: SchemaNode;
+
   /** For arrays: schema of array items */
   items?: SchemaNode;
 
@@ -55,10 +61,52 @@ export interface SchemaNode {
   /** For union types (field seen as multiple types across samples) */
   oneOf?: SchemaNode[];
 
+  /** For discriminated unions: property whose value selects the oneOf variant */
+  discriminator?: string;
+
+  /** For discriminated union variants: the discriminator value of this variant */
+  discriminatorValue?: string;
+
+  /** For low-cardinality strings/numbers: distinct values observed across samples */
+  enum?: Array<string | number>;
+
+  /** For numbers: smallest value observed across samples */
+  minimum?: number;
+
+  /** For numbers: largest value observed across samples */
+  maximum?: number;
+
+  /** For strings: shortest length observed across samples */
+  minLength?: number;
+
+  /** For strings: longest length observed across samples */
+  maxLength?: number;
+
   /** Number of samples this node was inferred from */
   sampleCount?: number;
 }
 
+// ─── Inference Options ──────────────────────────────────────────────────────
+
+export interface InferOptions {
+  /** Maximum distinct values tracked per string/number field before it is treated as free-form (default: 10, 0 disables) */
+  maxEnumValues?: number;
+
+  /** Whether objects keyed by IDs/dates are inferred as maps instead of named properties (default: true) */
+  detectMaps?: boolean;
+
+  /** Whether number fields track enum values too; prices and counts rarely form one (default: false) */
+  numericEnums?: boolean;
+}
+
+// ─── Schema Direction ───────────────────────────────────────────────────────
+
+/**
+ * Which side of the contract a schema describes. Responses are consumed by
+ * clients; request bodies are consumed by the server, inverting compatibility.
+ */
+export type SchemaDirection = 'response' | 'request';
+
 // ─── Schema Snapshot ────────────────────────────────────────────────────────
 
 export interface SchemaSnapshot {
@@ -77,10 +125,53 @@ export interface SchemaSnapshot {
   /** Number of response samples used to infer this schema */
   sampleCount: number;
 
-  /** Optional metadata */
+  /** Whether this schema describes a response (default) or a request body */
+  direction?: SchemaDirection;
+
+  /**
+   * Optional metadata (`source` is set for snapshots imported from a schema document, `graphql` for GraphQL
+   * responses, `query` and `operationName` for snapshots keyed by GraphQL operation)
+   */
   metadata?: Record<string, unknown>;
 }
 
+/** Where an imported (declared) schema came from, stored as `metadata.source` */
+export interface SchemaSource {
+  /** Document format the schema was imported from (e.g., 'jsonschema') */
+  format: string;
+
+  /** File path or URL of the document */
+  location?: string;
+}
+
+// ─── Diff Options ───────────────────────────────────────────────────────────
+
+export interface DiffOptions {
+  /** Side of the contract being compared; requests invert severities (default: 'response') */
+  direction?: SchemaDirection;
+
+  /**
+   * Fraction by which an observed min/max (or string length) may grow past the
+   * baseline before `range_changed` is reported (default: 0.5 = 50%). A numeric
+   * bound of 0 is measured against the width of the observed range instead.
+   */
+  rangeTolerance?: number;
+
+  /**
+   * Whether the baseline is a declared contract (e.g. an imported JSON Schema)
+   * rather than learned samples: optional fields may be absent, nullable fields
+   * non-null, and fields without a declared format may use any format.
+   */
+  declared?: boolean;
+
+  /**
+   * Whether enum values from schema documents (nodes without a `sampleCount`)
+   * are complete lists, so additions and removals are reported without
+   * waiting for repeated samples. Values observed in samples still need them.
+   */
+  exhaustiveEnums?: boolean;
+}
+
 // ─── Drift Detection ────────────────────────────────────────────────────────
 
 export type DriftSeverity = 'breaking' | 'warning' | 'info';
@@ -93,9 +184,25 @@ export type DriftType =
   | 'array_items_changed'
   | 'nesting_changed'
   | 'field_renamed'
+  | 'field_moved'
   | 'format_changed'
   | 'required_changed'
-  | 'homogeneity_changed';
+  | 'homogeneity_changed'
+  | 'enum_value_added'
+  | 'enum_value_removed'
+  | 'range_changed'
+  | 'variant_added'
+  | 'variant_removed'
+  | 'union_member_added'
+  | 'union_member_removed'
+  | 'operation_added'
+  | 'operation_removed'
+  | 'status_added'
+  | 'status_removed'
+  | 'columns_reordered'
+  | 'errors_appeared'
+  | 'type_added'
+  | 'type_removed';
 
 export interface DriftChange {
   /** Type of drift */
@@ -115,6 +222,9 @@ export interface DriftChange {
 
   /** New value/state (for context) */
   after?: string;
+
+  /** For heuristic matches (renames, moves): how sure the differ is, from 0 to 1 */
+  confidence?: number;
 }
 
 // ─── Drift Report ───────────────────────────────────────────────────────────
@@ -150,6 +260,296 @@ export interface DriftReport {
   hasBreakingChanges: boolean;
 }
 
+/** Changes found for one operation when comparing two OpenAPI documents */
+export interface OperationDiff {
+  /** Operation key (e.g., 'GET /users/{id}'), using the newer document's path template */
+  key: string;
+
+  /** Operation, status code and schema changes (schema paths start at `requestBody` or `responses.<status>`) */
+  changes: DriftChange[];
+}
+
+/** Result of comparing two OpenAPI documents operation by operation */
+export interface SpecDiffReport {
+  /** Timestamp of the comparison */
+  timestamp: string;
+
+  /** `info.version` of the old document */
+  previousVersion?: string;
+
+  /** `info.version` of the new document */
+  currentVersion?: string;
+
+  /** One report per operation found in either document */
+  operations: DriftReport[];
+
+  /** Summary counts across all operations */
+  summary: {
+    breaking: number;
+    warning: number;
+    info: number;
+    total: number;
+  };
+
+  /** Lowest compatibility score of any operation (0-100) */
+  compatibilityScore: number;
+
+  /** Whether any operation has breaking changes */
+  hasBreakingChanges: boolean;
+}
+
+/** Result of checking every endpoint recorded in a HAR file */
+export interface HarReport {
+  /** Timestamp of the check */
+  timestamp: string;
+
+  /** Path of the HAR file, when read from disk */
+  source?: string;
+
+  /** One report per endpoint key, with all of its entries merged */
+  endpoints: DriftReport[];
+
+  /** Entries that were not checked, and why */
+  skipped: HarSkippedEntry[];
+
+  /** Summary counts across all endpoints */
+  summary: {
+    breaking: number;
+    warning: number;
+    info: number;
+    total: number;
+  };
+
+  /** Lowest compatibility score of any endpoint (0-100) */
+  compatibilityScore: number;
+
+  /** Whether any endpoint has breaking changes */
+  hasBreakingChanges: boolean;
+}
+
+/** Result of comparing two GraphQL schemas (SDL or introspection) type by type */
+export interface GraphqlSchemaDiffReport {
+  /** Timestamp of the comparison */
+  timestamp: string;
+
+  /** Where the old schema came from (file path), if known */
+  before?: string;
+
+  /** Where the new schema came from (file path), if known */
+  after?: string;
+
+  /** One report per type (and per field's arguments, e.g. 'Query.user(args)') found in either schema */
+  types: DriftReport[];
+
+  /** Summary counts across all types */
+  summary: {
+    breaking: number;
+    warning: number;
+    info: number;
+    total: number;
+  };
+
+  /** Lowest compatibility score of any type (0-100) */
+  compatibilityScore: number;
+
+  /** Whether any type has breaking changes */
+  hasBreakingChanges: boolean;
+}
+
+// ─── Severity Rules ─────────────────────────────────────────────────────────
+
+export interface SeverityRule {
+  /** Glob matched against the schema key (e.g., 'GET /internal/*') */
+  key?: string;
+
+  /** Glob matched against the change path and everything below it (e.g., 'meta.debug') */
+  path?: string;
+
+  /** Drift type(s) this rule applies to (default: all) */
+  type?: DriftType | DriftType[];
+
+  /** Severity to assign, or 'ignore' to suppress the change */
+  severity: DriftSeverity | 'ignore';
+}
+
+// ─── JSON Schema ────────────────────────────────────────────────────────────
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/** The subset of JSON Schema (draft 2020-12) the converters read and write */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  format?: string;
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  enum?: unknown[];
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  /** OpenAPI 3.0 style nullability */
+  nullable?: boolean;
+  [keyword: string]: unknown;
+}
+
+// ─── OpenAPI ────────────────────────────────────────────────────────────────
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+  $ref?: string;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiRequestBody {
+  content?: Record<string, OpenApiMediaType>;
+  required?: boolean;
+  $ref?: string;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+/** The parts of an OpenAPI 3.0/3.1 document used for validation */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string }>;
+  paths?: Record<string, Record<string, OpenApiOperation>>;
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    responses?: Record<string, OpenApiResponse>;
+    requestBodies?: Record<string, OpenApiRequestBody>;
+  };
+}
+
+// ─── HAR ────────────────────────────────────────────────────────────────────
+
+export interface HarContent {
+  mimeType?: string;
+  text?: string;
+  /** 'base64' for binary or compressed bodies */
+  encoding?: string;
+}
+
+export interface HarEntry {
+  request: { method: string; url: string };
+  response: { status: number; content?: HarContent };
+}
+
+/** The parts of a HAR 1.2 archive used for snapshotting */
+export interface HarDocument {
+  log: { entries: HarEntry[] };
+}
+
+/** A decoded response body and the key it belongs to */
+export interface HarSample {
+  /** Method and templated path (e.g., 'GET /users/:id') */
+  key: string;
+  url: string;
+  status: number;
+  data: unknown;
+}
+
+export interface HarSkippedEntry {
+  /** 'METHOD url' of the entry */
+  entry: string;
+  reason: string;
+}
+
+export interface HarOptions {
+  /** Only use entries whose URL contains this string or matches this pattern */
+  filter?: string | RegExp;
+}
+
+/** Snapshots written from a HAR file, one per endpoint key */
+export interface HarSnapshotResult {
+  snapshots: SchemaSnapshot[];
+  skipped: HarSkippedEntry[];
+}
+
+// ─── GraphQL ────────────────────────────────────────────────────────────────
+
+/** The sections of a GraphQL response; absent sections are left out */
+export interface GraphqlResponse {
+  data?: unknown;
+  errors?: unknown[];
+  extensions?: unknown;
+}
+
+/** A GraphQL request body, as POSTed to a GraphQL endpoint */
+export interface GraphqlOperation {
+  /** The query document; may hold several operations (pick one with `operationName`) */
+  query: string;
+  operationName?: string;
+  variables?: Record<string, unknown>;
+}
+
+// ─── Avro ───────────────────────────────────────────────────────────────────
+
+/** An Avro schema: a primitive or named-type reference, a union, or a complex type */
+export type AvroSchema = string | AvroSchema[] | AvroComplexSchema;
+
+export interface AvroComplexSchema {
+  type: AvroSchema;
+  name?: string;
+  namespace?: string;
+  fields?: AvroField[];
+  symbols?: string[];
+  items?: AvroSchema;
+  values?: AvroSchema;
+  size?: number;
+  logicalType?: string;
+  [attribute: string]: unknown;
+}
+
+export interface AvroField {
+  name: string;
+  type: AvroSchema;
+  default?: unknown;
+  doc?: string;
+}
+
+// ─── Input Format ───────────────────────────────────────────────────────────
+
+/** Payload format for `autoParse`; 'auto' detects it from the content */
+export type InputFormat = 'auto' | 'json' | 'ndjson' | 'xml' | 'yaml' | 'csv' | 'tsv' | 'msgpack' | 'avro';
+
+/**
+ * Normalised XML parsing. Passing any options turns it on: elements that
+ * repeat anywhere in a document are arrays everywhere at that path, and
+ * text elements that carry attributes anywhere always keep their `#text` node.
+ */
+export interface XmlOptions {
+  /** Unwrap `Envelope/Body`, strip namespace prefixes and drop `xmlns`/`xsi` attributes (`xsi:nil` becomes null) */
+  soap?: boolean;
+
+  /** Element paths that are always arrays, relative to the SOAP body (e.g., 'GetUsersResponse.user') */
+  arrays?: string[];
+}
+
 // ─── Report Format ──────────────────────────────────────────────────────────
 
 export type ReportFormat = 'console' | 'json' | 'markdown' | 'html';
@@ -193,6 +593,62 @@ export interface SchemaGuardOptions {
 
   /** Custom metadata to include with snapshots */
   metadata?: Record<string, unknown>;
+
+  /** Maximum distinct values tracked per field for enum drift detection (default: 10, 0 disables) */
+  maxEnumValues?: number;
+
+  /** Whether number fields (status codes, levels) are tracked as enums too (default: false) */
+  numericEnums?: boolean;
+
+  /** Whether objects keyed by dynamic IDs are treated as maps (default: true) */
+  detectMaps?: boolean;
+
+  /** Allowed growth of observed numeric ranges / string lengths before drift is reported (default: 0.5) */
+  rangeTolerance?: number;
+
+  /** Severity overrides, or a path to a JSON rules file (last matching rule wins) */
+  rules?: SeverityRule[] | string;
+
+  /** Path patterns (e.g., 'debug', '**.traceId', 'items[]._links') pruned before diffing; persisted in snapshot metadata */
+  ignore?: string[];
+
+  /** Default side of the contract for new snapshots (default: 'response') */
+  direction?: SchemaDirection;
+
+  /** Normalise raw XML payloads; array paths of the stored snapshot are added to `arrays` */
+  xml?: XmlOptions;
+}
+
+// ─── Check Options ──────────────────────────────────────────────────────────
+
+export interface CheckOptions {
+  /** Side of the contract this payload belongs to (default: stored snapshot's, then the guard's) */
+  direction?: SchemaDirection;
+
+  /** Track `data`, `errors` and `extensions` of a GraphQL response separately (default: stored snapshot's) */
+  graphql?: boolean;
+}
+
+// ─── OpenAPI Options ────────────────────────────────────────────────────────
+
+export interface OpenApiValidateOptions {
+  /** HTTP status code of the response; falls back to `2XX`-style ranges and `default` (default: 200) */
+  status?: string | number;
+}
+
+export interface OpenApiGenerateOptions {
+  /** `info.title` of the generated document (default: 'Generated API') */
+  title?: string;
+
+  /** `info.version` of the generated document (default: '1.0.0') */
+  version?: string;
+}
+
+// ─── Code Generation Options ────────────────────────────────────────────────
+
+export interface TypeScriptOptions {
+  /** Tag formatted primitives with a `Formatted<string, 'uuid'>` brand instead of a doc comment (default: false) */
+  brandFormats?: boolean;
 }
 
 // ─── Watch Mode Options ─────────────────────────────────────────────────────
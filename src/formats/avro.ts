@@ -0,0 +1,147 @@
+/**
+ * Avro Record Parser
+ *
+ * Decodes Avro payloads into plain data for the schema inferrer: either an
+ * Object Container File (`Obj\x01` header carrying the writer schema), which
+ * becomes an array of its records, or a single datum encoded with a writer
+ * schema supplied by the caller. Bytes and fixed values become base64 strings.
+ */
+
+import * as zlib from 'zlib';
+import * as avro from 'avsc';
+import { AvroSchema } from '../core/types';
+import { toPlainValue } from './binary';
+
+const MAGIC = Buffer.from('Obj\x01', 'latin1');
+
+const SYNC_SCHEMA = { type: 'fixed', name: 'org.apache.avro.file.Sync', size: 16 };
+
+const HEADER_TYPE = avro.Type.forSchema({
+  type: 'record',
+  name: 'org.apache.avro.file.Header',
+  fields: [
+    { name: 'magic', type: { type: 'fixed', name: 'Magic', size: 4 } },
+    { name: 'meta', type: { type: 'map', values: 'bytes' } },
+    { name: 'sync', type: SYNC_SCHEMA },
+  ],
+} as avro.Schema);
+
+const BLOCK_TYPE = avro.Type.forSchema({
+  type: 'record',
+  name: 'org.apache.avro.file.Block',
+  fields: [
+    { name: 'count', type: 'long' },
+    { name: 'data', type: 'bytes' },
+    { name: 'sync', type: SYNC_SCHEMA },
+  ],
+} as avro.Schema);
+
+interface ContainerHeader {
+  schema: AvroSchema;
+  codec: string;
+  sync: Buffer;
+  /** Offset of the first data block */
+  offset: number;
+}
+
+/**
+ * Decode an Avro payload. Object Container Files are read with the schema
+ * in their header; anything else needs the writer schema.
+ */
+export function parseAvro(input: Uint8Array, writerSchema?: AvroSchema): unknown {
+  const buffer = Buffer.from(input);
+  if (isAvroContainer(buffer)) {
+    return readContainer(buffer);
+  }
+
+  if (writerSchema === undefined) {
+    throw new Error('Avro payloads without an Object Container File header need a writer schema');
+  }
+  try {
+    return toPlainValue(avroType(writerSchema).fromBuffer(buffer));
+  } catch (error) {
+    throw new Error(`Failed to parse Avro: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Check if a payload is an Avro Object Container File.
+ */
+export function isAvroContainer(input: Uint8Array): boolean {
+  return input.length >= MAGIC.length && MAGIC.equals(input.subarray(0, MAGIC.length));
+}
+
+/**
+ * The writer schema stored in an Object Container File's header.
+ */
+export function avroContainerSchema(input: Uint8Array): AvroSchema {
+  return readHeader(Buffer.from(input)).schema;
+}
+
+/**
+ * Compile an Avro schema, reporting invalid schemas with a readable error.
+ */
+export function avroType(schema: AvroSchema): avro.Type {
+  try {
+    return avro.Type.forSchema(schema as avro.Schema);
+  } catch (error) {
+    throw new Error(`Invalid Avro schema: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ─── Object Container Files ─────────────────────────────────────────────────
+
+function readHeader(buffer: Buffer): ContainerHeader {
+  const { value, offset } = HEADER_TYPE.decode(buffer, 0);
+  if (offset < 0 || !isAvroContainer(buffer)) {
+    throw new Error('Failed to parse Avro container: truncated or missing header');
+  }
+
+  const meta = value.meta as Record<string, Buffer>;
+  if (!meta['avro.schema']) {
+    throw new Error('Failed to parse Avro container: header has no "avro.schema"');
+  }
+
+  return {
+    schema: JSON.parse(meta['avro.schema'].toString('utf-8')),
+    codec: meta['avro.codec']?.toString('utf-8') || 'null',
+    sync: value.sync,
+    offset,
+  };
+}
+
+function readContainer(buffer: Buffer): unknown[] {
+  const header = readHeader(buffer);
+  const type = avroType(header.schema);
+  const records: unknown[] = [];
+
+  let position = header.offset;
+  while (position < buffer.length) {
+    const { value: block, offset } = BLOCK_TYPE.decode(buffer, position);
+    if (offset < 0) throw new Error('Failed to parse Avro container: truncated block');
+    if (!header.sync.equals(block.sync)) throw new Error('Failed to parse Avro container: sync marker mismatch');
+
+    const data = decompress(block.data, header.codec);
+    let cursor = 0;
+    for (let i = 0; i < block.count; i++) {
+      const record = type.decode(data, cursor);
+      if (record.offset < 0) throw new Error('Failed to parse Avro container: truncated record');
+      records.push(toPlainValue(record.value));
+      cursor = record.offset;
+    }
+    position = offset;
+  }
+
+  return records;
+}
+
+function decompress(data: Buffer, codec: string): Buffer {
+  switch (codec) {
+    case 'null':
+      return data;
+    case 'deflate':
+      return zlib.inflateRawSync(data);
+    default:
+      throw new Error(`Unsupported Avro codec "${codec}" (supported: null, deflate)`);
+  }
+}
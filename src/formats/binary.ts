@@ -0,0 +1,44 @@
+/**
+ * Binary Payload Helpers
+ *
+ * Shared by the MessagePack and Avro parsers: telling text from binary
+ * payloads, and turning decoded values into plain JSON-like data.
+ */
+
+const UTF8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Whether a payload is UTF-8 text without control characters other than
+ * whitespace. MessagePack and Avro payloads almost always fail this.
+ */
+export function isText(input: Uint8Array): boolean {
+  for (const byte of input) {
+    if ((byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) || byte === 0x7f) return false;
+  }
+
+  try {
+    UTF8.decode(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert decoded values to data the inferrer understands, as JSON would
+ * carry it: byte arrays become base64 strings, dates ISO strings, Maps
+ * objects and class instances (e.g. Avro records) plain objects.
+ */
+export function toPlainValue(value: unknown): unknown {
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (value instanceof Map) {
+    return Object.fromEntries([...value].map(([k, v]) => [String(k), toPlainValue(v)]));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toPlainValue(v)]));
+  }
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
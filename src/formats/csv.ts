@@ -0,0 +1,137 @@
+/**
+ * CSV/TSV Response Parser
+ *
+ * Parses delimited text (reporting and export endpoints) into one object per
+ * row, keyed by the header, with typed cells so the schema inferrer can
+ * detect column type changes. Rows are marked as having ordered keys, so
+ * reordered columns are reported too.
+ */
+
+import { ORDERED_KEYS } from '../core/inferrer';
+
+const DELIMITERS = [',', '\t', ';'];
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][-+]?\d+)?$/;
+
+/**
+ * Parse CSV/TSV text into row objects. The delimiter is detected from the
+ * header unless given. Cells are typed: numbers (without leading zeros, so
+ * codes like `007` stay strings), `true`/`false`, and empty → `null`.
+ * Dates stay strings and get their format hint from the inferrer.
+ */
+export function parseCsv(input: string, delimiter?: string): Array<Record<string, unknown>> {
+  const text = input.charCodeAt(0) === 0xfeff ? input.substring(1) : input;
+  const records = parseRecords(text, delimiter ?? detectDelimiter(text));
+  if (records.length === 0) return [];
+
+  const columns = uniqueColumns(records[0]);
+  return records.slice(1).map((cells) => {
+    const row: Record<string, unknown> = {};
+    cells.forEach((cell, i) => {
+      row[columns[i] ?? `column_${i + 1}`] = typeCell(cell);
+    });
+    Object.defineProperty(row, ORDERED_KEYS, { value: true, enumerable: false });
+    return row;
+  });
+}
+
+/**
+ * Check if a string looks like CSV/TSV: a header and at least one row, all
+ * with the same number (≥ 2) of delimited fields.
+ */
+export function isCsv(input: string): boolean {
+  const delimiter = detectDelimiter(input);
+  if (!input.split('\n')[0].includes(delimiter)) return false;
+
+  try {
+    const records = parseRecords(input, delimiter);
+    const width = records[0]?.length ?? 0;
+    return records.length >= 2 && width >= 2 && records.every((cells) => cells.length === width);
+  } catch {
+    return false;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * The candidate delimiter that occurs most often in the header line.
+ */
+function detectDelimiter(input: string): string {
+  const header = input.split('\n')[0];
+  const counts = DELIMITERS.map((d) => header.split(d).length - 1);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+}
+
+/**
+ * Split text into records of raw cells (RFC 4180): quoted cells may contain
+ * delimiters, newlines and `""` escapes. Blank lines are skipped.
+ */
+function parseRecords(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(cell);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    cell = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else cell += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  if (quoted) throw new Error('Failed to parse CSV: unterminated quoted cell');
+  if (cell !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Header names, with blanks named by position and duplicates suffixed.
+ */
+function uniqueColumns(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((raw, i) => {
+    const name = raw.trim() || `column_${i + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name}_${count}`;
+  });
+}
+
+function typeCell(cell: string): unknown {
+  const value = cell.trim();
+  if (value === '') return null;
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  if (NUMBER.test(value)) return Number(value);
+  return value;
+}
@@ -2,17 +2,15 @@
  * GraphQL Response Parser
  *
  * Parses GraphQL responses (which are JSON with a specific shape) and
- * extracts the data payload for schema inference.
+ * extracts the data payload — or all of its sections — for schema inference.
+ * Requests are keyed by operation, since every call goes to the same endpoint.
  */
 
+import { createHash } from 'crypto';
+import { DocumentNode, OperationDefinitionNode, Kind, parse, print } from 'graphql';
+import { GraphqlResponse, GraphqlOperation } from '../core/types';
 import { parseJson } from './json';
 
-interface GraphQLResponse {
-  data?: unknown;
-  errors?: unknown[];
-  extensions?: unknown;
-}
-
 /**
  * Parse a GraphQL response and extract the data payload.
  * GraphQL responses have the shape: { data: ..., errors: [...], extensions: ... }
@@ -28,7 +26,7 @@ export function parseGraphqlResponse(input: string | unknown): unknown {
   }
 
   if (typeof parsed === 'object' && parsed !== null) {
-    const gqlResponse = parsed as GraphQLResponse;
+    const gqlResponse = parsed as GraphqlResponse;
 
     // If it has a `data` field, treat it as a GraphQL response
     if ('data' in gqlResponse) {
@@ -50,3 +48,99 @@ export function isGraphqlResponse(input: unknown): boolean {
   return false;
 }
 
+/**
+ * Split a GraphQL response into its `data`, `errors` and `extensions`
+ * sections, so each can be inferred and diffed on its own. Other top-level
+ * fields are dropped.
+ */
+export function graphqlSections(input: string | unknown): GraphqlResponse {
+  const parsed = typeof input === 'string' ? parseJson(input) : input;
+  if (!isGraphqlResponse(parsed)) {
+    throw new Error('Not a GraphQL response (expected a "data" or "errors" field)');
+  }
+
+  const response = parsed as GraphqlResponse;
+  const sections: GraphqlResponse = {};
+  if ('data' in response) sections.data = response.data;
+  // `"errors": null` is a response without errors
+  if (response.errors !== undefined && response.errors !== null) sections.errors = response.errors;
+  if (response.extensions !== undefined && response.extensions !== null) sections.extensions = response.extensions;
+  return sections;
+}
+
+// ─── Operations ─────────────────────────────────────────────────────────────
+
+/**
+ * Read a GraphQL request body (`{ query, operationName?, variables? }`).
+ */
+export function parseGraphqlOperation(input: string | unknown): GraphqlOperation {
+  const parsed = typeof input === 'string' ? parseJson(input) : input;
+  if (typeof parsed !== 'object' || parsed === null || typeof (parsed as GraphqlOperation).query !== 'string') {
+    throw new Error('Not a GraphQL request (expected a "query" string)');
+  }
+
+  const { query, operationName, variables } = parsed as GraphqlOperation;
+  const operation: GraphqlOperation = { query };
+  // Clients send `null` for both when unused
+  if (typeof operationName === 'string') operation.operationName = operationName;
+  if (typeof variables === 'object' && variables !== null) operation.variables = variables;
+  return operation;
+}
+
+/**
+ * Key for a GraphQL operation: its type and name (`query GetUser`). Anonymous
+ * operations get a hash of the normalised document and the shape of the
+ * variables (`query anonymous-3f9a1c0b7e2d`), so reformatting the query or
+ * changing variable values keeps the key.
+ */
+export function graphqlOperationKey(operation: GraphqlOperation): string {
+  const document = parseQuery(operation.query);
+  const definition = selectOperation(document, operation.operationName);
+  if (definition.name) return `${definition.operation} ${definition.name.value}`;
+
+  const hash = createHash('sha256')
+    .update(print(document))
+    .update(valueShape(operation.variables ?? {}))
+    .digest('hex');
+  return `${definition.operation} anonymous-${hash.slice(0, 12)}`;
+}
+
+function parseQuery(query: string): DocumentNode {
+  try {
+    return parse(query);
+  } catch (error) {
+    throw new Error(`Failed to parse GraphQL query: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The operation a server would run: the one named `operationName`, or the
+ * only one in the document.
+ */
+function selectOperation(document: DocumentNode, operationName?: string): OperationDefinitionNode {
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+
+  if (operationName !== undefined) {
+    const named = operations.find((op) => op.name?.value === operationName);
+    if (!named) throw new Error(`Operation "${operationName}" not found in the GraphQL query`);
+    return named;
+  }
+  if (operations.length === 0) throw new Error('GraphQL query has no operation');
+  if (operations.length > 1) throw new Error('GraphQL query has several operations; pass an operationName');
+  return operations[0];
+}
+
+/**
+ * Types of a value without its contents, e.g. `{first:number,ids:[string]}`.
+ */
+function valueShape(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `[${[...new Set(value.map(valueShape))].sort().join('|')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, child]) => `${key}:${valueShape(child)}`).join(',')}}`;
+  }
+  return typeof value;
+}
@@ -0,0 +1,163 @@
+/**
+ * HAR Reader
+ *
+ * Reads HTTP Archive (HAR 1.2) files recorded by browsers and proxies and
+ * turns each successful request/response pair into a keyed sample
+ * (`GET /users/:id`) whose body has been decoded and parsed.
+ */
+
+import * as fs from 'fs';
+import { HarDocument, HarEntry, HarOptions, HarSample, HarSkippedEntry } from '../core/types';
+import { autoParse, formatForContentType } from './index';
+
+/** Content types that never carry API payloads (pages, scripts, assets) */
+const SKIPPED_CONTENT_TYPES = [
+  /^text\/html/,
+  /^text\/css/,
+  /javascript/,
+  /^image\//,
+  /^font\//,
+  /^audio\//,
+  /^video\//,
+  /^application\/(octet-stream|pdf|wasm|zip)/,
+];
+
+// ─── Loading ────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a HAR archive from its JSON text.
+ */
+export function parseHar(content: string): HarDocument {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to parse HAR file: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray((doc as HarDocument | null)?.log?.entries)) {
+    throw new Error('Invalid HAR file (expected a "log.entries" array)');
+  }
+  return doc as HarDocument;
+}
+
+/**
+ * Read and parse a HAR archive from a file.
+ */
+export function loadHar(filePath: string): HarDocument {
+  return parseHar(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// ─── Keys ───────────────────────────────────────────────────────────────────
+
+/**
+ * Key for a request: the method plus the URL path with ID-like segments
+ * templated, e.g. `GET https://api.example.com/users/42?x=1` → `GET /users/:id`.
+ * Further IDs in the same path are numbered (`/orgs/:id/members/:id2`).
+ */
+export function harEntryKey(method: string, url: string): string {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+
+  let ids = 0;
+  const segments = pathname.split('/').map((segment) => {
+    if (!isIdSegment(decodeSegment(segment))) return segment;
+    ids++;
+    return ids === 1 ? ':id' : `:id${ids}`;
+  });
+
+  return `${method.toUpperCase()} ${segments.join('/') || '/'}`;
+}
+
+/**
+ * Percent-decode a path segment; a stray `%` leaves it as it is.
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Numbers, UUIDs, long hex strings (e.g. Mongo ObjectIds) and long opaque
+ * tokens mixing letters and digits.
+ */
+function isIdSegment(segment: string): boolean {
+  return (
+    /^\d+$/.test(segment) ||
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+    (/^[0-9a-f]{16,}$/i.test(segment) && /\d/.test(segment)) ||
+    (/^[A-Za-z0-9_-]{20,}$/.test(segment) && /\d/.test(segment) && /[A-Za-z]/.test(segment))
+  );
+}
+
+// ─── Samples ────────────────────────────────────────────────────────────────
+
+/**
+ * Decode and parse the response body of every usable entry. Entries are
+ * skipped (with a reason) when they fail the filter, are not 2xx, have no
+ * body, carry a page or asset content type, or fail to parse.
+ */
+export function harSamples(
+  har: HarDocument,
+  options: HarOptions = {}
+): { samples: HarSample[]; skipped: HarSkippedEntry[] } {
+  const samples: HarSample[] = [];
+  const skipped: HarSkippedEntry[] = [];
+
+  for (const entry of har.log.entries) {
+    const { method, url } = entry.request;
+    if (!matchesFilter(url, options.filter)) continue;
+
+    const skip = (reason: string) => skipped.push({ entry: `${method.toUpperCase()} ${url}`, reason });
+    const { status } = entry.response;
+
+    if (status < 200 || status >= 300) {
+      skip(`status ${status}`);
+      continue;
+    }
+
+    const body = decodeBody(entry);
+    if (body === undefined || (typeof body === 'string' ? body.trim() === '' : body.length === 0)) {
+      skip('empty body');
+      continue;
+    }
+
+    const mimeType = (entry.response.content?.mimeType ?? '').toLowerCase();
+    if (SKIPPED_CONTENT_TYPES.some((pattern) => pattern.test(mimeType))) {
+      skip(`content type ${mimeType.split(';')[0]}`);
+      continue;
+    }
+
+    try {
+      const data = autoParse(body, formatForContentType(mimeType));
+      samples.push({ key: harEntryKey(method, url), url, status, data });
+    } catch (error) {
+      skip(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return { samples, skipped };
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function matchesFilter(url: string, filter?: string | RegExp): boolean {
+  if (filter === undefined) return true;
+  return typeof filter === 'string' ? url.includes(filter) : filter.test(url);
+}
+
+/**
+ * Base64 bodies stay binary so MessagePack and Avro payloads survive.
+ */
+function decodeBody(entry: HarEntry): string | Buffer | undefined {
+  const content = entry.response.content;
+  if (content?.text === undefined) return undefined;
+  return content.encoding === 'base64' ? Buffer.from(content.text, 'base64') : content.text;
+}
@@ -3,24 +3,88 @@
  */
 
 export { parseJson, isJson } from './json';
-export { parseXml, isXml } from './xml';
-export { parseGraphqlResponse, isGraphqlResponse } from './graphql';
+export { parseCsv, isCsv } from './csv';
+export { parseNdjson, isNdjson } from './ndjson';
+export { parseXml, parseXmlDocuments, isXml, xmlArrayPaths } from './xml';
+export { parseYaml, isYaml } from './yaml';
+export {
+  parseGraphqlResponse,
+  isGraphqlResponse,
+  graphqlSections,
+  parseGraphqlOperation,
+  graphqlOperationKey,
+} from './graphql';
+export { parseHar, loadHar, harEntryKey, harSamples } from './har';
+export { parseProtobuf, loadProtoType } from './protobuf';
+export { parseMsgpack } from './msgpack';
+export { parseAvro, isAvroContainer, avroContainerSchema } from './avro';
 
 /**
- * Auto-detect format and parse input string into a JavaScript value.
+ * Auto-detect format and parse input into a JavaScript value.
+ * Pass `format` to skip detection. Binary input (a Buffer) is read as an
+ * Avro container or MessagePack unless it is plain UTF-8 text. NDJSON is
+ * checked before JSON (both start with `{`), CSV/TSV before YAML, and YAML
+ * last, since almost any text is a valid YAML scalar. `xml` options
+ * normalise XML payloads (SOAP unwrapping, consistent arrays).
  */
+import { InputFormat, XmlOptions } from '../core/types';
 import { isJson, parseJson } from './json';
-import { isXml, parseXml } from './xml';
+import { isCsv, parseCsv } from './csv';
+import { isNdjson, parseNdjson } from './ndjson';
+import { isXml, parseXml, parseXmlDocuments } from './xml';
+import { isYaml, parseYaml } from './yaml';
+import { parseMsgpack } from './msgpack';
+import { parseAvro, isAvroContainer } from './avro';
+import { isText } from './binary';
+
+export function autoParse(input: string | Uint8Array, format: InputFormat = 'auto', xml?: XmlOptions): unknown {
+  if (typeof input !== 'string') {
+    if (format === 'avro' || (format === 'auto' && isAvroContainer(input))) {
+      return parseAvro(input);
+    }
+    if (format === 'msgpack' || (format === 'auto' && !isText(input))) {
+      return parseMsgpack(input);
+    }
+    input = Buffer.from(input).toString('utf-8');
+  } else if (format === 'msgpack' || format === 'avro') {
+    throw new Error(`${format === 'avro' ? 'Avro' : 'MessagePack'} payloads are binary; pass a Buffer`);
+  }
 
-export function autoParse(input: string): unknown {
   const trimmed = input.trim();
 
+  switch (format) {
+    case 'json':
+      return parseJson(trimmed);
+    case 'ndjson':
+      return parseNdjson(trimmed);
+    case 'xml':
+      return parseXml(trimmed, xml);
+    case 'yaml':
+      return parseYaml(trimmed);
+    case 'csv':
+      return parseCsv(trimmed);
+    case 'tsv':
+      return parseCsv(trimmed, '\t');
+  }
+
+  if (isNdjson(trimmed)) {
+    return parseNdjson(trimmed);
+  }
+
   if (isJson(trimmed)) {
     return parseJson(trimmed);
   }
 
   if (isXml(trimmed)) {
-    return parseXml(trimmed);
+    return parseXml(trimmed, xml);
+  }
+
+  if (isCsv(trimmed)) {
+    return parseCsv(trimmed);
+  }
+
+  if (isYaml(trimmed)) {
+    return parseYaml(trimmed);
   }
 
   // Try JSON as fallback (e.g., bare strings, numbers)
@@ -28,9 +92,55 @@ export function autoParse(input: string): unknown {
     return JSON.parse(trimmed);
   } catch {
     throw new Error(
-      'Unable to auto-detect format. Supported formats: JSON, XML. ' +
+      'Unable to auto-detect format. Supported formats: JSON, NDJSON, XML, CSV/TSV, YAML. ' +
         'Please provide data in a supported format.'
     );
   }
 }
 
+/**
+ * Parse several payloads of the same shape (e.g. both sides of a diff).
+ * With `xml` options, XML documents are normalised together, so a list that
+ * holds a single element in one of them is an array in all of them.
+ */
+export function autoParseAll(
+  inputs: Array<string | Uint8Array>,
+  format: InputFormat = 'auto',
+  xml?: XmlOptions
+): unknown[] {
+  if (xml) {
+    const texts = inputs.map((input) => xmlText(input, format));
+    if (texts.every((text): text is string => text !== undefined)) return parseXmlDocuments(texts, xml);
+  }
+  return inputs.map((input) => autoParse(input, format, xml));
+}
+
+/**
+ * The input as trimmed text when `autoParse` would read it as XML.
+ */
+function xmlText(input: string | Uint8Array, format: InputFormat): string | undefined {
+  if (format !== 'auto' && format !== 'xml') return undefined;
+  if (typeof input !== 'string') {
+    if (format === 'auto' && (isAvroContainer(input) || !isText(input))) return undefined;
+    input = Buffer.from(input).toString('utf-8');
+  }
+  const trimmed = input.trim();
+  return format === 'xml' || isXml(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Payload format implied by a Content-Type header; unknown types are
+ * auto-detected.
+ */
+export function formatForContentType(contentType: string | null | undefined): InputFormat {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  if (/(ndjson|jsonl|json-seq)$/.test(type)) return 'ndjson';
+  if (/[/+]json$/.test(type)) return 'json';
+  if (/[/+]xml$/.test(type)) return 'xml';
+  if (/[/+-]yaml$/.test(type)) return 'yaml';
+  if (/[/+.-]msgpack$/.test(type)) return 'msgpack';
+  if (/^avro\/|[/+.]avro(\+binary)?$/.test(type)) return 'avro';
+  if (type === 'text/csv') return 'csv';
+  if (type === 'text/tab-separated-values') return 'tsv';
+  return 'auto';
+}
@@ -0,0 +1,21 @@
+/**
+ * MessagePack Response Parser
+ *
+ * Decodes MessagePack payloads into plain data for the schema inferrer.
+ * Binary fields become base64 strings and timestamps ISO strings, matching
+ * what the same API would send as JSON.
+ */
+
+import { decode } from '@msgpack/msgpack';
+import { toPlainValue } from './binary';
+
+/**
+ * Decode a MessagePack payload into a JavaScript value.
+ */
+export function parseMsgpack(input: Uint8Array): unknown {
+  try {
+    return toPlainValue(decode(input));
+  } catch (error) {
+    throw new Error(`Failed to parse MessagePack: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
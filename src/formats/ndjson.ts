@@ -0,0 +1,46 @@
+/**
+ * NDJSON Response Parser
+ *
+ * Parses newline-delimited JSON (streaming and export endpoints) into an
+ * array of records, so the inferrer merges them like any other array.
+ */
+
+/**
+ * Parse an NDJSON string into an array with one entry per non-empty line.
+ */
+export function parseNdjson(input: string): unknown[] {
+  return input
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, number }) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(
+          `Failed to parse NDJSON line ${number}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+}
+
+/**
+ * Check if a string is NDJSON: at least two lines, each a complete JSON
+ * object or array. Pretty-printed JSON fails this, since its lines are fragments.
+ */
+export function isNdjson(input: string): boolean {
+  const lines = input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  if (lines.length < 2) return false;
+
+  return lines.every((line) => {
+    if (!/^[{[]/.test(line)) return false;
+    try {
+      return typeof JSON.parse(line) === 'object';
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Protobuf Message Parser
+ *
+ * Decodes binary protobuf payloads with a `.proto` definition into plain
+ * objects for the schema inferrer. Values follow the proto3 JSON mapping:
+ * 64-bit integers and bytes become strings, enums their names, and unset
+ * fields their defaults (`null` for messages), so every sample has the same keys.
+ */
+
+import * as protobuf from 'protobufjs';
+
+/** `toObject` options matching the proto3 JSON mapping */
+const TO_OBJECT_OPTIONS: protobuf.IConversionOptions = {
+  longs: String,
+  enums: String,
+  bytes: String,
+  defaults: true,
+  arrays: true,
+  objects: true,
+};
+
+/**
+ * Load a message type from a `.proto` file (imports are resolved relative
+ * to it). Field names are kept as declared, e.g. `display_name`.
+ *
+ * @param protoFile   Path to the `.proto` file
+ * @param messageType Message name, optionally package-qualified (e.g., 'accounts.v1.User')
+ */
+export function loadProtoType(protoFile: string, messageType: string): protobuf.Type {
+  let root: protobuf.Root;
+  try {
+    root = new protobuf.Root().loadSync(protoFile, { keepCase: true });
+    root.resolveAll();
+  } catch (error) {
+    throw new Error(`Failed to load ${protoFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  try {
+    return root.lookupType(messageType);
+  } catch {
+    throw new Error(`Message type "${messageType}" not found in ${protoFile}`);
+  }
+}
+
+/**
+ * Decode a binary protobuf payload into a plain object.
+ */
+export function parseProtobuf(payload: Uint8Array, protoFile: string, messageType: string): unknown {
+  const type = loadProtoType(protoFile, messageType);
+  try {
+    return type.toObject(type.decode(payload), TO_OBJECT_OPTIONS);
+  } catch (error) {
+    throw new Error(
+      `Failed to decode ${type.name} message: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
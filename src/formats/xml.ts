@@ -2,10 +2,13 @@
  * XML Response Parser
  *
  * Parses XML/SOAP responses into a JavaScript object that can be fed
- * to the schema inferrer.
+ * to the schema inferrer. Without options the parser output is returned
+ * as-is; with `XmlOptions` it is normalised so that the shape of a document
+ * does not depend on how many elements a list happens to hold.
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import { SchemaNode, XmlOptions } from '../core/types';
 
 const xmlParser = new XMLParser({
   ignoreAttributes: false,
@@ -16,10 +19,69 @@ const xmlParser = new XMLParser({
   trimValues: true,
 });
 
+const ATTRIBUTE_PREFIX = '@_';
+const TEXT_NODE = '#text';
+
+type XmlObject = Record<string, unknown>;
+
+/** Paths (dot-separated element names) that need a consistent shape */
+interface XmlShapes {
+  arrays: Set<string>;
+  textNodes: Set<string>;
+}
+
+/**
+ * Parse an XML string into a JavaScript object, normalised when options
+ * are given (see `XmlOptions`).
+ */
+export function parseXml(input: string, options?: XmlOptions): unknown {
+  return options ? parseXmlDocuments([input], options)[0] : parseRaw(input);
+}
+
 /**
- * Parse an XML string into a JavaScript object.
+ * Parse several XML documents and normalise them together, so a list that
+ * holds a single element in one document is still an array when another
+ * document repeats it (e.g. both sides of a diff).
  */
-export function parseXml(input: string): unknown {
+export function parseXmlDocuments(inputs: string[], options: XmlOptions): unknown[] {
+  const roots = inputs.map((input) => {
+    const parsed = parseRaw(input);
+    return options.soap ? unwrapEnvelope(stripNamespaces(parsed)) : parsed;
+  });
+
+  const shapes: XmlShapes = { arrays: new Set(options.arrays ?? []), textNodes: new Set() };
+  for (const root of roots) collectShapes(root, '', shapes);
+  return roots.map((root) => applyShapes(root, '', shapes));
+}
+
+/**
+ * Check if a string looks like XML.
+ */
+export function isXml(input: string): boolean {
+  const trimmed = input.trim();
+  return trimmed.startsWith('<') && trimmed.endsWith('>');
+}
+
+/**
+ * Element paths that are arrays in a schema, in the form `XmlOptions.arrays`
+ * expects (`orders.order.line`), so a stored snapshot keeps single-element
+ * lists parsing as arrays.
+ */
+export function xmlArrayPaths(schema: SchemaNode, path = ''): string[] {
+  const paths: string[] = [];
+  if (schema.type === 'array') {
+    if (path) paths.push(path);
+    if (schema.items) paths.push(...xmlArrayPaths(schema.items, path));
+  }
+  for (const [name, child] of Object.entries(schema.properties ?? {})) {
+    paths.push(...xmlArrayPaths(child, joinPath(path, name)));
+  }
+  return paths;
+}
+
+// ─── Normalisation ──────────────────────────────────────────────────────────
+
+function parseRaw(input: string): unknown {
   try {
     return xmlParser.parse(input);
   } catch (error) {
@@ -30,10 +92,95 @@ export function parseXml(input: string): unknown {
 }
 
 /**
- * Check if a string looks like XML.
+ * Drop namespace prefixes from element and attribute names, `xmlns`
+ * declarations and `xsi:*` attributes. `xsi:nil="true"` elements become null,
+ * and elements left with only text collapse to that text.
  */
-export function isXml(input: string): boolean {
-  const trimmed = input.trim();
-  return trimmed.startsWith('<') && trimmed.endsWith('>');
+function stripNamespaces(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNamespaces);
+  if (!isObject(value)) return value;
+
+  const result: XmlObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key.startsWith(ATTRIBUTE_PREFIX)) {
+      const name = key.slice(ATTRIBUTE_PREFIX.length);
+      if (name === 'xsi:nil' && (child === true || child === 'true')) return null;
+      if (name === 'xmlns' || name.startsWith('xmlns:') || name.startsWith('xsi:')) continue;
+      result[ATTRIBUTE_PREFIX + localName(name)] = child;
+      continue;
+    }
+
+    const name = key === TEXT_NODE ? key : localName(key);
+    const stripped = stripNamespaces(child);
+    // The same local name from two namespaces is one list
+    result[name] = name in result ? [result[name], stripped].flat() : stripped;
+  }
+
+  const keys = Object.keys(result);
+  if (keys.length === 0) return '';
+  if (keys.length === 1 && keys[0] === TEXT_NODE) return result[TEXT_NODE];
+  return result;
+}
+
+/**
+ * The content of `Envelope/Body` (headers are dropped); documents without
+ * an envelope are returned unchanged.
+ */
+function unwrapEnvelope(root: unknown): unknown {
+  if (!isObject(root) || !isObject(root.Envelope) || !('Body' in root.Envelope)) return root;
+  return root.Envelope.Body;
+}
+
+function collectShapes(value: unknown, path: string, shapes: XmlShapes): void {
+  if (Array.isArray(value)) {
+    if (path) shapes.arrays.add(path);
+    for (const item of value) collectShapes(item, path, shapes);
+    return;
+  }
+  if (!isObject(value)) return;
+
+  const keys = Object.keys(value);
+  if (keys.includes(TEXT_NODE) && keys.some((key) => key.startsWith(ATTRIBUTE_PREFIX))) {
+    shapes.textNodes.add(path);
+  }
+  for (const key of keys) {
+    if (isElementKey(key)) collectShapes(value[key], joinPath(path, key), shapes);
+  }
+}
+
+function applyShapes(value: unknown, path: string, shapes: XmlShapes): unknown {
+  if (Array.isArray(value)) return value.map((item) => applyShapes(item, path, shapes));
+  if (!isObject(value)) {
+    return value !== null && shapes.textNodes.has(path) ? { [TEXT_NODE]: value } : value;
+  }
+
+  const result: XmlObject = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (!isElementKey(key)) {
+      result[key] = child;
+      continue;
+    }
+    const childPath = joinPath(path, key);
+    const shaped = applyShapes(child, childPath, shapes);
+    result[key] = shapes.arrays.has(childPath) && !Array.isArray(shaped) ? [shaped] : shaped;
+  }
+  return result;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+function isObject(value: unknown): value is XmlObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isElementKey(key: string): boolean {
+  return key !== TEXT_NODE && !key.startsWith(ATTRIBUTE_PREFIX);
 }
 
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
@@ -0,0 +1,43 @@
+/**
+ * YAML Response Parser
+ *
+ * Parses YAML documents (e.g. from config APIs) into data that can be fed
+ * to the schema inferrer.
+ */
+
+import { parseAllDocuments } from 'yaml';
+
+/**
+ * Parse a YAML string into a JavaScript value.
+ * A stream of several `---` documents becomes an array of them.
+ */
+export function parseYaml(input: string): unknown {
+  const values = parseAllDocuments(input).map((doc) => {
+    if (doc.errors.length > 0) {
+      throw new Error(`Failed to parse YAML: ${doc.errors[0].message}`);
+    }
+    return doc.toJS();
+  });
+
+  if (values.length === 0) return null;
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Check if a string looks like a YAML mapping or sequence. Plain text is
+ * valid YAML too (a string scalar), so only structured documents count.
+ */
+export function isYaml(input: string): boolean {
+  const firstLine = input
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.length > 0 && !line.startsWith('#'));
+  if (!firstLine || !/^(---|%YAML|- |-$|[^\s:#{[<][^:]*:(\s|$))/.test(firstLine)) return false;
+
+  try {
+    const value = parseYaml(input);
+    return typeof value === 'object' && value !== null;
+  } catch {
+    return false;
+  }
+}
@@ -3,8 +3,13 @@
  *
  * The primary entry point for api-schema-differentiator. Provides a simple API for:
  * - Checking API responses for schema drift
+ * - Keying GraphQL responses by operation
  * - Snapshotting schemas
  * - Comparing schemas
+ * - Validating responses against OpenAPI specs
+ * - Comparing two OpenAPI specs
+ * - Comparing two GraphQL schemas
+ * - Snapshotting and checking HAR recordings
  * - Generating drift reports
  */
 
@@ -17,12 +22,47 @@ import {
   DriftChange,
   DriftSeverity,
   ReportFormat,
+  InferOptions,
+  DiffOptions,
+  SeverityRule,
+  SchemaDirection,
+  CheckOptions,
+  SchemaSource,
+  OpenApiDocument,
+  OpenApiValidateOptions,
+  SpecDiffReport,
+  HarDocument,
+  HarOptions,
+  HarReport,
+  HarSkippedEntry,
+  HarSnapshotResult,
+  XmlOptions,
+  GraphqlSchemaDiffReport,
+  GraphqlOperation,
 } from './core/types';
 import { inferSchema, mergeSchemas } from './core/inferrer';
-import { diffSchemas, calculateCompatibilityScore } from './core/differ';
+import { diffSchemas, diffGraphqlSchemas, calculateCompatibilityScore } from './core/differ';
 import { formatReport } from './core/reporter';
+import { applySeverityRules, loadRulesFile } from './core/rules';
+import { pruneSchema, pruneData, mergeIgnorePatterns } from './core/mask';
+import { GraphQLSchema } from 'graphql';
+import {
+  loadOpenApi,
+  openApiResponseSchema,
+  diffOpenApiOperations,
+  loadGraphqlSchema,
+  diffGraphqlTypes,
+} from './convert';
 import { FileStore } from './store/file-store';
-import { autoParse } from './formats';
+import {
+  autoParse,
+  autoParseAll,
+  loadHar,
+  harSamples,
+  xmlArrayPaths,
+  graphqlSections,
+  graphqlOperationKey,
+} from './formats';
 
 // ─── SchemaGuard Class ──────────────────────────────────────────────────────
 
@@ -32,6 +72,12 @@ export class SchemaGuard {
   private autoUpdate: boolean;
   private minSeverity: DriftSeverity;
   private metadata: Record<string, unknown>;
+  private inferOptions: InferOptions;
+  private diffOptions: DiffOptions;
+  private rules: SeverityRule[];
+  private ignore: string[];
+  private direction: SchemaDirection;
+  private xml?: XmlOptions;
 
   constructor(options: SchemaGuardOptions) {
     // Initialize store
@@ -45,6 +91,16 @@ export class SchemaGuard {
     this.autoUpdate = options.autoUpdate ?? false;
     this.minSeverity = options.minSeverity ?? 'info';
     this.metadata = options.metadata ?? {};
+    this.inferOptions = {
+      maxEnumValues: options.maxEnumValues,
+      detectMaps: options.detectMaps,
+      numericEnums: options.numericEnums,
+    };
+    this.diffOptions = { rangeTolerance: options.rangeTolerance };
+    this.rules = typeof options.rules === 'string' ? loadRulesFile(options.rules) : options.rules ?? [];
+    this.ignore = options.ignore ?? [];
+    this.direction = options.direction ?? 'response';
+    this.xml = options.xml;
   }
 
   /**
@@ -54,86 +110,91 @@ export class SchemaGuard {
    * - If a snapshot exists: compares and returns a drift report.
    *
    * @param key      Unique identifier for this endpoint (e.g., 'GET /api/v2/users')
-   * @param response The response data (parsed object, or raw string to auto-parse)
+   * @param response The response data (parsed object, or raw string/Buffer to auto-parse)
+   * @param options  Per-call overrides (e.g., `direction: 'request'` for request bodies,
+   *                 `graphql: true` to track GraphQL `errors` and `extensions` too)
    */
-  async check(key: string, response: unknown): Promise<DriftReport> {
-    // Parse string input if needed
-    const data = typeof response === 'string' ? autoParse(response) : response;
-
-    // Infer schema from current response
-    const currentSchema = inferSchema(data);
-
-    // Load existing snapshot
-    const existing = await this.store.load(key);
-
-    if (!existing) {
-      // No previous snapshot — auto-snapshot and return clean report
-      if (this.autoSnapshot) {
-        await this.snapshot(key, data);
-      }
-
-      return this.createEmptyReport(key, 1, 1);
-    }
-
-    // Compare schemas
-    const allChanges = diffSchemas(existing.schema, currentSchema);
-    const changes = this.filterBySeverity(allChanges);
-    // Pass baseline schema for adaptive scoring
-    const score = calculateCompatibilityScore(changes, existing.schema);
-
-    const report: DriftReport = {
-      key,
-      timestamp: new Date().toISOString(),
-      previousVersion: existing.version,
-      currentVersion: existing.version + 1,
-      changes,
-      summary: {
-        breaking: changes.filter((c) => c.severity === 'breaking').length,
-        warning: changes.filter((c) => c.severity === 'warning').length,
-        info: changes.filter((c) => c.severity === 'info').length,
-        total: changes.length,
-      },
-      compatibilityScore: score,
-      hasBreakingChanges: changes.some((c) => c.severity === 'breaking'),
-    };
+  async check(key: string, response: unknown, options: CheckOptions = {}): Promise<DriftReport> {
+    // Parse string or binary input if needed
+    const data = parseInput(response, await this.xmlOptionsFor(key));
+    const graphql = await this.graphqlMode(key, options);
+
+    // Infer schema from current response, without the ignored fields
+    const schema = this.inferResponse(data, graphql, await this.ignoreForKey(key));
+    return this.checkSchema(key, schema, 1, { ...options, graphql });
+  }
 
-    // Auto-update if enabled and changes detected
-    if (this.autoUpdate && changes.length > 0) {
-      await this.snapshot(key, data, existing.version + 1);
-    }
+  /**
+   * Snapshot the schema for a response.
+   */
+  async snapshot(
+    key: string,
+    response: unknown,
+    version?: number,
+    options: CheckOptions = {}
+  ): Promise<SchemaSnapshot> {
+    const data = parseInput(response, await this.xmlOptionsFor(key));
+    const graphql = await this.graphqlMode(key, options);
+    const schema = this.inferResponse(data, graphql, await this.ignoreForKey(key));
+    return this.snapshotSchema(key, schema, 1, version, { ...options, graphql });
+  }
 
-    return report;
+  /**
+   * Check a GraphQL response against the baseline of the operation that
+   * produced it. The key comes from `graphqlOperationKey` (`query GetUser`)
+   * instead of the endpoint every operation shares, and the query text is
+   * stored with the snapshot. Sections are tracked as with `graphql: true`.
+   *
+   * @param operation The request body: `query`, plus `operationName` and `variables` if sent
+   * @param response  The response data (parsed object, or raw string/Buffer to auto-parse)
+   */
+  async checkGraphql(
+    operation: GraphqlOperation,
+    response: unknown,
+    options: CheckOptions = {}
+  ): Promise<DriftReport> {
+    const key = graphqlOperationKey(operation);
+    const graphql = options.graphql ?? true;
+    const schema = this.inferResponse(parseInput(response), graphql, await this.ignoreForKey(key));
+    return this.checkSchema(key, schema, 1, { ...options, graphql }, operation);
   }
 
   /**
-   * Snapshot the schema for a response.
+   * Snapshot a GraphQL response under its operation's key (see `checkGraphql`).
    */
-  async snapshot(key: string, response: unknown, version?: number): Promise<SchemaSnapshot> {
-    const data = typeof response === 'string' ? autoParse(response) : response;
-    const schema = inferSchema(data);
+  async snapshotGraphql(
+    operation: GraphqlOperation,
+    response: unknown,
+    version?: number,
+    options: CheckOptions = {}
+  ): Promise<SchemaSnapshot> {
+    const key = graphqlOperationKey(operation);
+    const graphql = options.graphql ?? true;
+    const schema = this.inferResponse(parseInput(response), graphql, await this.ignoreForKey(key));
+    return this.snapshotSchema(key, schema, 1, version, { ...options, graphql }, operation);
+  }
 
-    // If a version exists, merge with existing schema for multi-sample learning
+  /**
+   * Store a declared schema (e.g., converted with `fromJsonSchema`) as the next
+   * version for a key. Checks against it treat the schema as a contract:
+   * optional fields may be absent and nullable fields may hold values.
+   */
+  async importSchema(
+    key: string,
+    schema: SchemaNode,
+    source: SchemaSource,
+    options: CheckOptions = {}
+  ): Promise<SchemaSnapshot> {
     const existing = await this.store.load(key);
-    let finalSchema = schema;
-    let finalVersion = version ?? 1;
-    let sampleCount = 1;
-
-    if (existing && !version) {
-      // Merge with existing schema (multi-sample learning)
-      finalSchema = mergeSchemas(existing.schema, schema);
-      finalVersion = existing.version; // Same version, more samples
-      sampleCount = (existing.sampleCount || 1) + 1;
-    } else if (version) {
-      finalVersion = version;
-    }
 
     const snapshot: SchemaSnapshot = {
       key,
-      schema: finalSchema,
+      schema,
       timestamp: new Date().toISOString(),
-      version: finalVersion,
-      sampleCount,
-      metadata: this.metadata,
+      version: existing ? existing.version + 1 : 1,
+      sampleCount: 0,
+      direction: options.direction ?? existing?.direction ?? this.direction,
+      metadata: { ...this.metadata, source },
     };
 
     await this.store.save(snapshot);
@@ -144,72 +205,194 @@ export class SchemaGuard {
    * Explicitly learn from a new sample without triggering drift detection.
    * Used for multi-sample learning to refine required/optional fields.
    */
-  async learn(key: string, response: unknown): Promise<SchemaSnapshot> {
-    return this.snapshot(key, response);
+  async learn(key: string, response: unknown, options: CheckOptions = {}): Promise<SchemaSnapshot> {
+    return this.snapshot(key, response, undefined, options);
   }
 
   /**
-   * Compare two specific versions of a schema.
+   * Compare two specific versions of a schema. A `direction` option overrides
+   * the one stored with the snapshots.
    */
-  async diff(key: string, versionA: number, versionB: number): Promise<DriftReport> {
+  async diff(key: string, versionA: number, versionB: number, options: CheckOptions = {}): Promise<DriftReport> {
     const a = await this.store.loadVersion(key, versionA);
     const b = await this.store.loadVersion(key, versionB);
 
     if (!a) throw new Error(`Version ${versionA} not found for key "${key}"`);
     if (!b) throw new Error(`Version ${versionB} not found for key "${key}"`);
 
-    const allChanges = diffSchemas(a.schema, b.schema);
-    const changes = this.filterBySeverity(allChanges);
-    const score = calculateCompatibilityScore(changes);
+    const ignore = mergeIgnorePatterns(this.ignore, snapshotIgnore(a), snapshotIgnore(b));
+    const direction = options.direction ?? b.direction ?? a.direction ?? this.direction;
+    const diff = isGraphql(a) || isGraphql(b) ? diffGraphqlSchemas : diffRoot;
+    const declared = isDeclared(a);
+    const allChanges = diff(pruneSchema(a.schema, ignore), pruneSchema(b.schema, ignore), {
+      ...this.diffOptions,
+      direction,
+      declared,
+      // As in check(): a declared enum lists every allowed value
+      exhaustiveEnums: declared || this.diffOptions.exhaustiveEnums,
+    });
+    return this.buildReport(key, allChanges, versionA, versionB);
+  }
+
+  /**
+   * Compare two raw data objects directly (without store).
+   * The optional key is used for key-scoped severity rules and the report title.
+   */
+  diffData(
+    before: unknown,
+    after: unknown,
+    key: string = '(direct comparison)',
+    options: CheckOptions = {}
+  ): DriftReport {
+    // Raw XML on both sides is normalised with the array paths of both documents
+    const [beforeData, afterData] =
+      isRawInput(before) && isRawInput(after)
+        ? autoParseAll([before, after], 'auto', this.xml)
+        : [parseInput(before, this.xml), parseInput(after, this.xml)];
+    const graphql = options.graphql ?? false;
+
+    const schemaBefore = this.inferResponse(beforeData, graphql, this.ignore);
+    const schemaAfter = this.inferResponse(afterData, graphql, this.ignore);
+
+    const diff = graphql ? diffGraphqlSchemas : diffRoot;
+    const allChanges = diff(schemaBefore, schemaAfter, {
+      ...this.diffOptions,
+      direction: options.direction ?? this.direction,
+    });
+    return this.buildReport(key, allChanges, 0, 0);
+  }
+
+  /**
+   * Compare a response against the schema an OpenAPI 3.0/3.1 document
+   * declares for an operation, treating the spec as a contract.
+   *
+   * @param spec     Parsed OpenAPI document, or a path to a JSON/YAML file
+   * @param key      Operation key (e.g., 'GET /users/{id}' or 'GET /users/42')
+   * @param response The response data (parsed object, or raw string/Buffer to auto-parse)
+   * @param options  Status code of the response (default: 200)
+   */
+  validateOpenApi(
+    spec: OpenApiDocument | string,
+    key: string,
+    response: unknown,
+    options: OpenApiValidateOptions = {}
+  ): DriftReport {
+    const doc = typeof spec === 'string' ? loadOpenApi(spec) : spec;
+    const data = parseInput(response, this.xml);
+
+    const declared = pruneSchema(openApiResponseSchema(doc, key, options.status), this.ignore);
+    const actual = inferSchema(pruneData(data, this.ignore), this.inferOptions);
+
+    const allChanges = diffSchemas(declared, actual, '', { ...this.diffOptions, declared: true, exhaustiveEnums: true });
+    return this.buildReport(key, allChanges, 0, 0, declared);
+  }
+
+  /**
+   * Compare two OpenAPI 3.0/3.1 documents operation by operation, without
+   * any traffic: added/removed operations and status codes, plus schema
+   * changes in request bodies and responses. Each operation gets its own report.
+   *
+   * @param before Old document, or a path to a JSON/YAML file
+   * @param after  New document, or a path to a JSON/YAML file
+   */
+  diffOpenApi(before: OpenApiDocument | string, after: OpenApiDocument | string): SpecDiffReport {
+    const oldSpec = typeof before === 'string' ? loadOpenApi(before) : before;
+    const newSpec = typeof after === 'string' ? loadOpenApi(after) : after;
+
+    const operations = diffOpenApiOperations(oldSpec, newSpec, this.diffOptions, (node) =>
+      pruneSchema(node, this.ignore)
+    ).map((op) => this.buildReport(op.key, op.changes, 0, 0));
 
     return {
-      key,
       timestamp: new Date().toISOString(),
-      previousVersion: versionA,
-      currentVersion: versionB,
-      changes,
-      summary: {
-        breaking: changes.filter((c) => c.severity === 'breaking').length,
-        warning: changes.filter((c) => c.severity === 'warning').length,
-        info: changes.filter((c) => c.severity === 'info').length,
-        total: changes.length,
-      },
-      compatibilityScore: score,
-      hasBreakingChanges: changes.some((c) => c.severity === 'breaking'),
+      previousVersion: oldSpec.info?.version,
+      currentVersion: newSpec.info?.version,
+      operations,
+      ...aggregate(operations),
     };
   }
 
   /**
-   * Compare two raw data objects directly (without store).
+   * Compare two GraphQL schemas (SDL or introspection results) type by type,
+   * without any traffic. Each type, and each field's arguments
+   * (`Query.user(args)`), gets its own report.
+   *
+   * @param before Old schema, or a path to an SDL/introspection JSON file
+   * @param after  New schema, or a path to an SDL/introspection JSON file
    */
-  diffData(before: unknown, after: unknown): DriftReport {
-    const beforeData = typeof before === 'string' ? autoParse(before) : before;
-    const afterData = typeof after === 'string' ? autoParse(after) : after;
+  diffGraphqlSchema(before: GraphQLSchema | string, after: GraphQLSchema | string): GraphqlSchemaDiffReport {
+    const oldSchema = typeof before === 'string' ? loadGraphqlSchema(before) : before;
+    const newSchema = typeof after === 'string' ? loadGraphqlSchema(after) : after;
 
-    const schemaBefore = inferSchema(beforeData);
-    const schemaAfter = inferSchema(afterData);
+    const types = diffGraphqlTypes(oldSchema, newSchema, this.diffOptions, (node) =>
+      pruneSchema(node, this.ignore)
+    ).map((type) => this.buildReport(type.key, type.changes, 0, 0));
 
-    const allChanges = diffSchemas(schemaBefore, schemaAfter);
-    const changes = this.filterBySeverity(allChanges);
-    const score = calculateCompatibilityScore(changes);
+    return {
+      timestamp: new Date().toISOString(),
+      before: typeof before === 'string' ? before : undefined,
+      after: typeof after === 'string' ? after : undefined,
+      types,
+      ...aggregate(types),
+    };
+  }
+
+  /**
+   * Snapshot every endpoint recorded in a HAR file. Entries sharing a key
+   * are merged, so the baseline learns from all of them at once.
+   *
+   * @param har     Parsed HAR document, or a path to a `.har` file
+   * @param options Optional URL filter
+   */
+  async snapshotHar(har: HarDocument | string, options: HarOptions = {}): Promise<HarSnapshotResult> {
+    const { groups, skipped } = await this.harGroups(har, options);
+
+    const snapshots: SchemaSnapshot[] = [];
+    for (const [key, schemas] of groups) {
+      snapshots.push(await this.snapshotSchema(key, this.mergeAll(schemas), schemas.length));
+    }
+
+    return { snapshots, skipped };
+  }
+
+  /**
+   * Check every endpoint recorded in a HAR file against its stored schema.
+   * Entries sharing a key are merged before the comparison; keys without a
+   * snapshot are auto-snapshotted like `check()`.
+   *
+   * @param har     Parsed HAR document, or a path to a `.har` file
+   * @param options Optional URL filter
+   */
+  async checkHar(har: HarDocument | string, options: HarOptions = {}): Promise<HarReport> {
+    const { groups, skipped } = await this.harGroups(har, options);
+
+    const endpoints: DriftReport[] = [];
+    for (const [key, schemas] of groups) {
+      endpoints.push(await this.checkSchema(key, this.mergeAll(schemas), schemas.length));
+    }
 
     return {
-      key: '(direct comparison)',
       timestamp: new Date().toISOString(),
-      previousVersion: 0,
-      currentVersion: 0,
-      changes,
-      summary: {
-        breaking: changes.filter((c) => c.severity === 'breaking').length,
-        warning: changes.filter((c) => c.severity === 'warning').length,
-        info: changes.filter((c) => c.severity === 'info').length,
-        total: changes.length,
-      },
-      compatibilityScore: score,
-      hasBreakingChanges: changes.some((c) => c.severity === 'breaking'),
+      source: typeof har === 'string' ? har : undefined,
+      endpoints,
+      skipped,
+      ...aggregate(endpoints),
     };
   }
 
+  /**
+   * XML parsing options for a key: the guard's `xml` options plus the array
+   * paths of the key's latest snapshot, so a list that shrinks to a single
+   * element still parses as an array. Undefined when `xml` is not configured.
+   */
+  async xmlOptionsFor(key: string): Promise<XmlOptions | undefined> {
+    if (!this.xml) return undefined;
+
+    const existing = await this.store.load(key);
+    if (!existing) return this.xml;
+    return { ...this.xml, arrays: [...(this.xml.arrays ?? []), ...xmlArrayPaths(existing.schema)] };
+  }
+
   /**
    * Format a drift report.
    */
@@ -240,6 +423,185 @@ export class SchemaGuard {
 
   // ─── Private Helpers ────────────────────────────────────────────────────
 
+  /**
+   * Compare an inferred schema (from one or more samples) with the stored one.
+   */
+  private async checkSchema(
+    key: string,
+    currentSchema: SchemaNode,
+    samples: number,
+    options: CheckOptions = {},
+    operation?: GraphqlOperation
+  ): Promise<DriftReport> {
+    // Load existing snapshot
+    const existing = await this.store.load(key);
+
+    if (!existing) {
+      // No previous snapshot — auto-snapshot and return clean report
+      if (this.autoSnapshot) {
+        await this.snapshotSchema(key, currentSchema, samples, undefined, options, operation);
+      }
+
+      return this.createEmptyReport(key, 1, 1);
+    }
+
+    // Mask volatile fields (configured now or persisted with the baseline)
+    const ignore = this.ignoreFor(existing);
+    const baseline = pruneSchema(existing.schema, ignore);
+
+    // Compare schemas (GraphQL responses section by section)
+    const direction = options.direction ?? existing.direction ?? this.direction;
+    const graphql = options.graphql ?? isGraphql(existing);
+    const diff = graphql ? diffGraphqlSchemas : diffRoot;
+    const declared = isDeclared(existing);
+    const allChanges = diff(baseline, pruneSchema(currentSchema, ignore), {
+      ...this.diffOptions,
+      direction,
+      declared,
+      // A declared enum lists every allowed value
+      exhaustiveEnums: declared || this.diffOptions.exhaustiveEnums,
+    });
+    // Pass baseline schema for adaptive scoring
+    const report = this.buildReport(key, allChanges, existing.version, existing.version + 1, baseline);
+
+    // Auto-update if enabled and changes detected
+    if (this.autoUpdate && report.changes.length > 0) {
+      await this.snapshotSchema(key, currentSchema, samples, existing.version + 1, { direction, graphql }, operation);
+    }
+
+    return report;
+  }
+
+  /**
+   * Store an inferred schema (from one or more samples), merging it into
+   * the latest snapshot unless a version is forced. The GraphQL operation,
+   * if any, replaces the query stored with the latest snapshot.
+   */
+  private async snapshotSchema(
+    key: string,
+    inferred: SchemaNode,
+    samples: number,
+    version?: number,
+    options: CheckOptions = {},
+    operation?: GraphqlOperation
+  ): Promise<SchemaSnapshot> {
+    // If a version exists, merge with existing schema for multi-sample learning
+    const existing = await this.store.load(key);
+    const ignore = this.ignoreFor(existing);
+    const schema = pruneSchema(inferred, ignore);
+    let finalSchema = schema;
+    let finalVersion = version ?? 1;
+    let sampleCount = samples;
+
+    if (existing && !version) {
+      // Merge with existing schema (multi-sample learning)
+      finalSchema = mergeSchemas(pruneSchema(existing.schema, ignore), schema, this.inferOptions);
+      finalVersion = existing.version; // Same version, more samples
+      sampleCount = (existing.sampleCount || 1) + samples;
+    } else if (version) {
+      finalVersion = version;
+    }
+
+    const metadata: Record<string, unknown> = { ...this.metadata };
+    // Samples merged into an imported schema keep it a declared contract
+    if (existing && !version && isDeclared(existing)) metadata.source = existing.metadata!.source;
+    if (ignore.length > 0) metadata.ignore = ignore;
+    if (options.graphql ?? isGraphql(existing)) metadata.graphql = true;
+    Object.assign(metadata, operation ? operationMetadata(operation) : snapshotOperation(existing));
+
+    const snapshot: SchemaSnapshot = {
+      key,
+      schema: finalSchema,
+      timestamp: new Date().toISOString(),
+      version: finalVersion,
+      sampleCount,
+      direction: options.direction ?? existing?.direction ?? this.direction,
+      metadata,
+    };
+
+    await this.store.save(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Infer a schema per usable HAR entry, grouped by key in recording order.
+   */
+  private async harGroups(
+    har: HarDocument | string,
+    options: HarOptions
+  ): Promise<{ groups: Map<string, SchemaNode[]>; skipped: HarSkippedEntry[] }> {
+    const doc = typeof har === 'string' ? loadHar(har) : har;
+    const { samples, skipped } = harSamples(doc, options);
+
+    const groups = new Map<string, SchemaNode[]>();
+    const ignore = new Map<string, string[]>();
+    for (const sample of samples) {
+      if (!ignore.has(sample.key)) ignore.set(sample.key, await this.ignoreForKey(sample.key));
+      const schemas = groups.get(sample.key) ?? [];
+      schemas.push(inferSchema(pruneData(sample.data, ignore.get(sample.key)!), this.inferOptions));
+      groups.set(sample.key, schemas);
+    }
+    return { groups, skipped };
+  }
+
+  /**
+   * Infer a response schema, leaving out ignored fields; GraphQL responses
+   * become an object holding one sub-schema per section (`data`, `errors`,
+   * `extensions`).
+   */
+  private inferResponse(data: unknown, graphql: boolean, ignore: string[]): SchemaNode {
+    return inferSchema(pruneData(graphql ? graphqlSections(data) : data, ignore), this.inferOptions);
+  }
+
+  /**
+   * Whether a payload for a key is a GraphQL response: the per-call option,
+   * else the flag stored with the key's latest snapshot.
+   */
+  private async graphqlMode(key: string, options: CheckOptions): Promise<boolean> {
+    return options.graphql ?? isGraphql(await this.store.load(key));
+  }
+
+  private mergeAll(schemas: SchemaNode[]): SchemaNode {
+    return schemas.reduce((merged, schema) => mergeSchemas(merged, schema, this.inferOptions));
+  }
+
+  private ignoreFor(existing: SchemaSnapshot | null): string[] {
+    return mergeIgnorePatterns(this.ignore, snapshotIgnore(existing));
+  }
+
+  private async ignoreForKey(key: string): Promise<string[]> {
+    return this.ignoreFor(await this.store.load(key));
+  }
+
+  /**
+   * Apply severity rules and filtering, then score and summarize the changes.
+   */
+  private buildReport(
+    key: string,
+    allChanges: DriftChange[],
+    previousVersion: number,
+    currentVersion: number,
+    baseline?: SchemaNode
+  ): DriftReport {
+    const changes = this.filterBySeverity(applySeverityRules(allChanges, this.rules, key));
+
+    return {
+      key,
+      timestamp: new Date().toISOString(),
+      previousVersion,
+      currentVersion,
+      changes,
+      summary: {
+        breaking: changes.filter((c) => c.severity === 'breaking').length,
+        warning: changes.filter((c) => c.severity === 'warning').length,
+        info: changes.filter((c) => c.severity === 'info').length,
+        total: changes.length,
+      },
+      compatibilityScore: calculateCompatibilityScore(changes, baseline),
+      hasBreakingChanges: changes.some((c) => c.severity === 'breaking'),
+    };
+  }
+
   private filterBySeverity(changes: DriftChange[]): DriftChange[] {
     const severityOrder: Record<DriftSeverity, number> = {
       info: 0,
@@ -264,3 +626,83 @@ export class SchemaGuard {
   }
 }
 
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Auto-parse raw payloads (text, or a Buffer of MessagePack/Avro); parsed
+ * data passes through.
+ */
+function parseInput(value: unknown, xml?: XmlOptions): unknown {
+  return isRawInput(value) ? autoParse(value, 'auto', xml) : value;
+}
+
+function isRawInput(value: unknown): value is string | Uint8Array {
+  return typeof value === 'string' || value instanceof Uint8Array;
+}
+
+/**
+ * Summary counts, lowest score and breaking flag across several reports.
+ */
+function aggregate(
+  reports: DriftReport[]
+): Pick<DriftReport, 'summary' | 'compatibilityScore' | 'hasBreakingChanges'> {
+  const changes = reports.flatMap((r) => r.changes);
+  return {
+    summary: {
+      breaking: changes.filter((c) => c.severity === 'breaking').length,
+      warning: changes.filter((c) => c.severity === 'warning').length,
+      info: changes.filter((c) => c.severity === 'info').length,
+      total: changes.length,
+    },
+    compatibilityScore: Math.min(100, ...reports.map((r) => r.compatibilityScore)),
+    hasBreakingChanges: reports.some((r) => r.hasBreakingChanges),
+  };
+}
+
+/**
+ * Whether a snapshot was imported from a schema document rather than learned.
+ */
+function isDeclared(snapshot: SchemaSnapshot): boolean {
+  return snapshot.metadata?.source !== undefined;
+}
+
+/**
+ * Whether a snapshot holds a GraphQL response schema (one sub-schema per section).
+ */
+function isGraphql(snapshot: SchemaSnapshot | null): boolean {
+  return snapshot?.metadata?.graphql === true;
+}
+
+/**
+ * The query text (and operation name, if given) stored for a GraphQL
+ * operation. Variables are left out; they may hold user data.
+ */
+function operationMetadata(operation: GraphqlOperation): Record<string, unknown> {
+  const metadata: Record<string, unknown> = { query: operation.query };
+  if (operation.operationName !== undefined) metadata.operationName = operation.operationName;
+  return metadata;
+}
+
+/**
+ * The GraphQL operation metadata of a snapshot, carried over to the next one.
+ */
+function snapshotOperation(snapshot: SchemaSnapshot | null): Record<string, unknown> {
+  const { query, operationName } = snapshot?.metadata ?? {};
+  if (typeof query !== 'string') return {};
+  return typeof operationName === 'string' ? { query, operationName } : { query };
+}
+
+/**
+ * `diffSchemas` from the root, in the shape of `diffGraphqlSchemas`.
+ */
+function diffRoot(before: SchemaNode, after: SchemaNode, options: DiffOptions): DriftChange[] {
+  return diffSchemas(before, after, '', options);
+}
+
+/**
+ * Ignore patterns persisted in a snapshot's metadata.
+ */
+function snapshotIgnore(snapshot: SchemaSnapshot | null): string[] {
+  const ignore = snapshot?.metadata?.ignore;
+  return Array.isArray(ignore) ? ignore.filter((p): p is string => typeof p === 'string') : [];
+}
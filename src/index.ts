@@ -30,22 +30,110 @@ export {
   SchemaSnapshot,
   DriftChange,
   DriftReport,
+  OperationDiff,
+  SpecDiffReport,
+  HarReport,
+  GraphqlSchemaDiffReport,
+  HarDocument,
+  HarEntry,
+  HarSample,
+  HarSkippedEntry,
+  HarSnapshotResult,
+  HarOptions,
   DriftSeverity,
   DriftType,
   ReportFormat,
+  InputFormat,
+  XmlOptions,
+  GraphqlResponse,
+  GraphqlOperation,
+  AvroSchema,
+  AvroComplexSchema,
+  AvroField,
   SchemaStore,
   SchemaGuardOptions,
+  InferOptions,
+  DiffOptions,
+  SeverityRule,
+  SchemaDirection,
+  CheckOptions,
+  SchemaSource,
+  JsonSchema,
+  JsonSchemaType,
+  OpenApiDocument,
+  OpenApiValidateOptions,
+  OpenApiGenerateOptions,
+  TypeScriptOptions,
   WatchOptions,
 } from './core/types';
 
 // ─── Core Engines (for advanced usage) ──────────────────────────────────────
 export { inferSchema, mergeSchemas, schemaToString } from './core/inferrer';
-export { diffSchemas, calculateCompatibilityScore } from './core/differ';
-export { formatReport } from './core/reporter';
+export { diffSchemas, diffGraphqlSchemas, calculateCompatibilityScore } from './core/differ';
+export { formatReport, formatSpecReport, formatHarReport, formatGraphqlSchemaReport } from './core/reporter';
+export { applySeverityRules, loadRulesFile } from './core/rules';
+export { pruneSchema, pruneData } from './core/mask';
+
+// ─── Converters ─────────────────────────────────────────────────────────────
+export {
+  toJsonSchema,
+  snapshotToJsonSchema,
+  toAjvSchema,
+  fromJsonSchema,
+  fromProto,
+  fromAvroSchema,
+  loadAvroSchema,
+  parseGraphqlSchema,
+  loadGraphqlSchema,
+  fromGraphqlSchema,
+  diffGraphqlTypes,
+  toZod,
+  generateZod,
+  parseOpenApi,
+  loadOpenApi,
+  openApiResponseSchema,
+  generateOpenApi,
+  openApiFromStore,
+  diffOpenApiOperations,
+  typeNameForKey,
+  toTypeScript,
+  generateTypeScript,
+} from './convert';
 
 // ─── Store ──────────────────────────────────────────────────────────────────
 export { FileStore } from './store/file-store';
 
 // ─── Format Parsers ─────────────────────────────────────────────────────────
-export { parseJson, isJson, parseXml, isXml, parseGraphqlResponse, isGraphqlResponse, autoParse } from './formats';
+export {
+  parseJson,
+  isJson,
+  parseNdjson,
+  isNdjson,
+  parseCsv,
+  isCsv,
+  parseXml,
+  parseXmlDocuments,
+  isXml,
+  xmlArrayPaths,
+  parseYaml,
+  isYaml,
+  parseGraphqlResponse,
+  isGraphqlResponse,
+  graphqlSections,
+  parseGraphqlOperation,
+  graphqlOperationKey,
+  parseHar,
+  loadHar,
+  harEntryKey,
+  harSamples,
+  parseProtobuf,
+  loadProtoType,
+  parseMsgpack,
+  parseAvro,
+  isAvroContainer,
+  avroContainerSchema,
+  formatForContentType,
+  autoParse,
+  autoParseAll,
+} from './formats';
 
@@ -20,9 +20,9 @@ import { SchemaStore, SchemaSnapshot } from '../core/types';
 // ─── Helpers ────────────────────────────────────────────────────────────────
 
 /**
- * Sanitize a key to be a valid directory name.
+ * Sanitize a key to be a valid directory (or file) name.
  */
-function sanitizeKey(key: string): string {
+export function sanitizeKey(key: string): string {
   return key
     .replace(/[^a-zA-Z0-9_\-./]/g, '_')
     .replace(/\//g, '__')
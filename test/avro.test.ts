@@ -0,0 +1,112 @@
+/**
+ * Tests for the Avro parser and schema converter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseAvro, isAvroContainer, avroContainerSchema } from '../src/formats/avro';
+import { autoParse } from '../src/formats';
+import { fromAvroSchema, loadAvroSchema } from '../src/convert';
+import { inferSchema } from '../src/core/inferrer';
+import { diffSchemas } from '../src/core/differ';
+
+const SCHEMA_FILE = path.join(__dirname, 'fixtures', 'user.avsc');
+const SCHEMA_V2_FILE = path.join(__dirname, 'fixtures', 'user-v2.avsc');
+const CONTAINER_FILE = path.join(__dirname, 'fixtures', 'users.avro');
+const DATUM_FILE = path.join(__dirname, 'fixtures', 'user-avro.bin');
+
+describe('Avro', () => {
+  // ─── Decoding ────────────────────────────────────────────────────────
+
+  describe('parseAvro', () => {
+    test('reads every record of an Object Container File', () => {
+      const container = fs.readFileSync(CONTAINER_FILE);
+      const users = parseAvro(container) as Record<string, unknown>[];
+
+      expect(isAvroContainer(container)).toBe(true);
+      expect(users).toHaveLength(2);
+      expect(users[0]).toMatchObject({ id: 1, email: 'alice@example.com', role: 'ADMIN', quotas: { storage: 10 } });
+      expect(users[1]).toMatchObject({ display_name: null, shipping_address: { city: 'Lyon' } });
+    });
+
+    test('decodes a single datum with a writer schema', () => {
+      const user = parseAvro(fs.readFileSync(DATUM_FILE), loadAvroSchema(SCHEMA_FILE));
+      expect(user).toMatchObject({ id: 1, display_name: 'Alice', tags: ['beta'] });
+    });
+
+    test('requires a writer schema without a container header', () => {
+      expect(() => parseAvro(fs.readFileSync(DATUM_FILE))).toThrow('need a writer schema');
+      expect(() => autoParse(fs.readFileSync(DATUM_FILE), 'avro')).toThrow('need a writer schema');
+    });
+
+    test('auto-detects container buffers', () => {
+      expect(autoParse(fs.readFileSync(CONTAINER_FILE))).toHaveLength(2);
+    });
+
+    test('rejects invalid schemas and corrupted containers', () => {
+      expect(() => parseAvro(Buffer.alloc(1), { type: 'record', name: 'User' })).toThrow('Invalid Avro schema');
+
+      const corrupted = Buffer.from(fs.readFileSync(CONTAINER_FILE));
+      corrupted[corrupted.length - 1] ^= 0xff;
+      expect(() => parseAvro(corrupted)).toThrow('sync marker mismatch');
+    });
+  });
+
+  // ─── Conversion ──────────────────────────────────────────────────────
+
+  describe('fromAvroSchema', () => {
+    const schema = fromAvroSchema(loadAvroSchema(SCHEMA_FILE));
+
+    test('maps fields to schema nodes', () => {
+      const props = schema.properties!;
+
+      expect(props.id).toEqual({ type: 'number', nullable: false, format: 'integer' });
+      expect(props.display_name).toEqual({ type: 'string', nullable: true });
+      expect(props.role.enum).toEqual(['ADMIN', 'MEMBER']);
+      expect(props.quotas.additionalProperties!.format).toBe('integer');
+      expect(props.external_id.format).toBe('uuid');
+      expect(schema.required).toContain('display_name');
+    });
+
+    test('resolves named type references', () => {
+      expect(schema.properties!.shipping_address).toMatchObject({
+        type: 'object',
+        nullable: true,
+        required: ['city', 'postal_code'],
+      });
+    });
+
+    test('reads the writer schema from a container header', () => {
+      const writerSchema = loadAvroSchema(CONTAINER_FILE);
+
+      expect(writerSchema).toEqual(avroContainerSchema(fs.readFileSync(CONTAINER_FILE)));
+      expect(writerSchema).toMatchObject({ name: 'accounts.v1.User' });
+      expect(fromAvroSchema(writerSchema).required).toEqual(schema.required);
+    });
+
+    test('stops at recursive records', () => {
+      const node = fromAvroSchema({
+        type: 'record',
+        name: 'Node',
+        fields: [{ name: 'next', type: ['null', 'Node'] }],
+      });
+      expect(node.properties!.next).toEqual({ type: 'object', nullable: true });
+    });
+
+    test('accepts records decoded with the same schema', () => {
+      const decoded = inferSchema(parseAvro(fs.readFileSync(CONTAINER_FILE)));
+      const changes = diffSchemas({ type: 'array', nullable: false, items: schema }, decoded, '', { declared: true });
+
+      expect(changes.filter((c) => c.severity !== 'info')).toEqual([]);
+    });
+
+    test('diffs two revisions of a schema', () => {
+      const changes = diffSchemas(schema, fromAvroSchema(loadAvroSchema(SCHEMA_V2_FILE)));
+      const summary = changes.map((c) => `${c.type} ${c.path}`);
+
+      expect(summary).toContain('type_changed id');
+      expect(summary).toContain('field_removed email');
+      expect(summary).toContain('field_added created_at');
+    });
+  });
+});
@@ -2,8 +2,9 @@
  * Tests for the Schema Diff Engine
  */
 
-import { inferSchema } from '../src/core/inferrer';
-import { diffSchemas, calculateCompatibilityScore } from '../src/core/differ';
+import { inferSchema, mergeSchemas } from '../src/core/inferrer';
+import { diffSchemas, diffGraphqlSchemas, calculateCompatibilityScore } from '../src/core/differ';
+import { parseCsv } from '../src/formats/csv';
 import { DriftChange } from '../src/core/types';
 
 describe('Schema Diff Engine', () => {
@@ -73,6 +74,15 @@ describe('Schema Diff Engine', () => {
       expect(removed).toBeDefined();
       expect(removed!.path).toBe('meta.updated');
     });
+
+    test('detects a field removed from a wide flat record', () => {
+      const record: Record<string, string> = {};
+      for (let i = 1; i <= 25; i++) record[`attr_${i}`] = `value ${i}`;
+      const { attr_7: _removed, ...rest } = record;
+
+      const changes = diffSchemas(inferSchema(record), inferSchema(rest));
+      expect(changes.map((c) => `${c.type} ${c.path}`)).toEqual(['field_removed attr_7']);
+    });
   });
 
   // ─── Type Changed ────────────────────────────────────────────────────
@@ -126,6 +136,11 @@ describe('Schema Diff Engine', () => {
       expect(nullableChange).toBeDefined();
       expect(nullableChange!.severity).toBe('warning');
     });
+
+    test('accepts a null value for a field known to be nullable', () => {
+      const before = mergeSchemas(inferSchema({ name: 'Alice' }), inferSchema({ name: null }));
+      expect(diffSchemas(before, inferSchema({ name: null }))).toHaveLength(0);
+    });
   });
 
   // ─── Array Items Changed ──────────────────────────────────────────────
@@ -154,6 +169,87 @@ describe('Schema Diff Engine', () => {
       expect(rename).toBeDefined();
       expect(rename!.before).toBe('role');
       expect(rename!.after).toBe('roles');
+      expect(rename!.confidence).toBe(1);
+    });
+
+    test('does not pair unrelated fields of the same type', () => {
+      const before = inferSchema({ id: 1, email: 'alice@example.com', price: 10 });
+      const after = inferSchema({ id: 1, country: 'France', quantity: 3 });
+      const changes = diffSchemas(before, after).map((c) => `${c.type} ${c.path}`);
+
+      expect(changes.sort()).toEqual([
+        'field_added country',
+        'field_added quantity',
+        'field_removed email',
+        'field_removed price',
+      ]);
+    });
+
+    test('does not pair unrelated fields of different shapes', () => {
+      const before = inferSchema({ id: 1, role: 'admin' });
+      const after = inferSchema({ id: 1, createdAt: '2024-01-01' });
+      const types = diffSchemas(before, after).map((c) => c.type);
+
+      expect(types).toEqual(['field_removed', 'field_added']);
+    });
+
+    test('diffs a renamed object under its new name', () => {
+      const before = inferSchema({ addr: { street: 'x', city: 'y', zip: 'z' } });
+      const after = inferSchema({ address: { street: 'x', city: 'y' } });
+      const changes = diffSchemas(before, after);
+
+      expect(changes.find((c) => c.type === 'field_renamed')!.after).toBe('address');
+      expect(changes.find((c) => c.type === 'field_removed')!.path).toBe('address.zip');
+    });
+  });
+
+  // ─── Field Moved ─────────────────────────────────────────────────────
+
+  describe('Field moved detection', () => {
+    const address = { street: '1 Main St', city: 'Paris', zip: '75001' };
+
+    test('detects a subtree moved under a new parent', () => {
+      const before = inferSchema({ user: { id: 1, address } });
+      const after = inferSchema({ user: { id: 1, profile: { address } } });
+      const changes = diffSchemas(before, after);
+
+      const moved = changes.find((c) => c.type === 'field_moved');
+      expect(moved).toBeDefined();
+      expect(moved!.before).toBe('user.address');
+      expect(moved!.after).toBe('user.profile.address');
+      expect(moved!.severity).toBe('warning');
+      expect(moved!.confidence).toBe(1);
+      expect(changes.some((c) => c.type === 'field_removed')).toBe(false);
+    });
+
+    test('detects a leaf field moved to another object', () => {
+      const before = inferSchema({ user: { id: 1, email: 'a@b.com' }, contact: { phone: '1' } });
+      const after = inferSchema({ user: { id: 1 }, contact: { phone: '1', email: 'a@b.com' } });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_moved');
+      expect(changes[0].path).toBe('user.email');
+      expect(changes[0].after).toBe('contact.email');
+    });
+
+    test('reports changes inside the moved subtree at its new path', () => {
+      const before = inferSchema({ user: { address } });
+      const after = inferSchema({ user: { profile: { address: { ...address, country: 'FR' } } } });
+      const changes = diffSchemas(before, after);
+
+      expect(changes.some((c) => c.type === 'field_moved')).toBe(true);
+      const added = changes.find((c) => c.path === 'user.profile.address.country');
+      expect(added!.type).toBe('field_added');
+    });
+
+    test('does not treat unrelated fields at different levels as moves', () => {
+      const before = inferSchema({ user: { id: 1, nickname: 'al' } });
+      const after = inferSchema({ user: { id: 1 }, meta: { etag: 'abc' } });
+      const types = diffSchemas(before, after).map((c) => c.type);
+
+      expect(types).not.toContain('field_moved');
+      expect(types).toContain('field_removed');
     });
   });
 
@@ -171,6 +267,419 @@ describe('Schema Diff Engine', () => {
     });
   });
 
+  // ─── Enum Drift ──────────────────────────────────────────────────────
+
+  describe('Enum drift', () => {
+    const learn = (...samples: unknown[]) =>
+      samples.map((s) => inferSchema(s)).reduce((a, b) => mergeSchemas(a, b));
+
+    test('detects a new enum value as a warning', () => {
+      const before = learn(
+        { status: 'active' },
+        { status: 'suspended' },
+        { status: 'active' }
+      );
+      const after = inferSchema({ status: 'archived' });
+      const changes = diffSchemas(before, after);
+
+      const added = changes.find((c) => c.type === 'enum_value_added');
+      expect(added).toBeDefined();
+      expect(added!.path).toBe('status');
+      expect(added!.severity).toBe('warning');
+      expect(added!.message).toContain('"archived"');
+    });
+
+    test('reports removed enum values as info when both sides are enum-like', () => {
+      const before = learn({ status: 'active' }, { status: 'suspended' }, { status: 'active' });
+      const after = learn({ status: 'active' }, { status: 'active' });
+      const changes = diffSchemas(before, after);
+
+      const removed = changes.find((c) => c.type === 'enum_value_removed');
+      expect(removed).toBeDefined();
+      expect(removed!.severity).toBe('info');
+      expect(removed!.message).toContain('"suspended"');
+    });
+
+    test('does not treat repeated numbers as an enum', () => {
+      const prices = learn({ price: 10 }, { price: 20 }, { price: 30 }, { price: 10 }, { price: 20 }, { price: 30 });
+      expect(diffSchemas(prices, inferSchema({ price: 25 }))).toHaveLength(0);
+    });
+
+    test('ignores value changes when the baseline has only unique samples', () => {
+      const before = inferSchema({ name: 'Alice' });
+      const after = inferSchema({ name: 'Bob' });
+      expect(diffSchemas(before, after)).toHaveLength(0);
+    });
+
+    test('does not report removals from a single new sample', () => {
+      const before = learn({ status: 'active' }, { status: 'suspended' }, { status: 'active' });
+      const after = inferSchema({ status: 'active' });
+      expect(diffSchemas(before, after)).toHaveLength(0);
+    });
+  });
+
+  // ─── Range Drift ─────────────────────────────────────────────────────
+
+  describe('Range drift', () => {
+    test('reports values growing past the observed range', () => {
+      const before = inferSchema({ items: [1, 10, 4, 7, 2].map((qty) => ({ qty })) });
+      const after = inferSchema({ items: [{ qty: 500 }] });
+      const changes = diffSchemas(before, after);
+
+      const range = changes.find((c) => c.type === 'range_changed');
+      expect(range).toBeDefined();
+      expect(range!.path).toBe('items[].qty');
+      expect(range!.severity).toBe('warning');
+      expect(range!.before).toBe('[1, 10]');
+      expect(range!.after).toBe('[500, 500]');
+    });
+
+    test('respects the configured tolerance', () => {
+      const before = inferSchema([10, 20, 30, 15, 25]);
+      const after = inferSchema([40]);
+
+      expect(diffSchemas(before, after).some((c) => c.type === 'range_changed')).toBe(false);
+      expect(
+        diffSchemas(before, after, '', { rangeTolerance: 0.1 }).some(
+          (c) => c.type === 'range_changed'
+        )
+      ).toBe(true);
+    });
+
+    test('measures a bound of 0 against the width of the range', () => {
+      const before = inferSchema([-40, -10, 0, -25, -5].map((delta) => ({ delta })));
+
+      expect(diffSchemas(before, inferSchema([{ delta: 15 }])).some((c) => c.type === 'range_changed')).toBe(false);
+      expect(diffSchemas(before, inferSchema([{ delta: 25 }])).some((c) => c.type === 'range_changed')).toBe(true);
+    });
+
+    test('always reports a value going negative', () => {
+      const before = inferSchema({ price: 10 });
+      const after = inferSchema({ price: -1 });
+      const range = diffSchemas(before, after).find((c) => c.type === 'range_changed');
+      expect(range).toBeDefined();
+      expect(range!.message).toContain('now negative');
+    });
+
+    test('always reports overflow past the safe integer range', () => {
+      const before = inferSchema({ id: 12345 });
+      const after = inferSchema({ id: 2 ** 53 + 2 });
+      const range = diffSchemas(before, after).find((c) => c.type === 'range_changed');
+      expect(range).toBeDefined();
+      expect(range!.message).toContain('exceeds safe integer range');
+    });
+
+    test('reports string length growth', () => {
+      const before = inferSchema(['short text', 'another one', 'third', 'fourth', 'fifth']);
+      const after = inferSchema(['x'.repeat(40000)]);
+      const range = diffSchemas(before, after).find((c) => c.type === 'range_changed');
+      expect(range).toBeDefined();
+      expect(range!.message).toContain('40000');
+    });
+
+    test('ignores range differences on single-sample baselines', () => {
+      const before = inferSchema({ id: 1, name: 'Bob' });
+      const after = inferSchema({ id: 2000, name: 'Alexandria' });
+      expect(diffSchemas(before, after)).toHaveLength(0);
+    });
+  });
+
+  // ─── Map Drift ───────────────────────────────────────────────────────
+
+  describe('Map drift', () => {
+    test('does not report changing IDs as added/removed fields', () => {
+      const before = inferSchema({ users: { u_123: { name: 'Alice' }, u_456: { name: 'Bob' } } });
+      const after = inferSchema({ users: { u_789: { name: 'Carol' } } });
+      expect(diffSchemas(before, after)).toHaveLength(0);
+    });
+
+    test('compares the value schema of maps', () => {
+      const before = inferSchema({ users: { u_123: { name: 'Alice', age: 30 } } });
+      const after = inferSchema({ users: { u_789: { name: 'Carol' } } });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_removed');
+      expect(changes[0].path).toBe('users{}.age');
+    });
+  });
+
+  // ─── Discriminated Union Drift ───────────────────────────────────────
+
+  describe('Discriminated union drift', () => {
+    const baseline = inferSchema({
+      payments: [
+        { type: 'card', amount: 10, last4: '4242' },
+        { type: 'bank', amount: 20, iban: 'DE89370400440532013000' },
+      ],
+    });
+
+    test('reports per-variant field changes with variant paths', () => {
+      const after = inferSchema({
+        payments: [
+          { type: 'card', amount: 10, last4: '4242' },
+          { type: 'bank', amount: 20 },
+        ],
+      });
+      const changes = diffSchemas(baseline, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_removed');
+      expect(changes[0].path).toBe('payments[type=bank].iban');
+    });
+
+    test('compares a single-variant response against its variant only', () => {
+      const after = inferSchema({ payments: [{ type: 'card', amount: 3, last4: '0005' }] });
+      expect(diffSchemas(baseline, after)).toHaveLength(0);
+    });
+
+    test('reports added and removed variants', () => {
+      const after = inferSchema({
+        payments: [
+          { type: 'card', amount: 10, last4: '4242' },
+          { type: 'wallet', amount: 20, provider: 'paypal' },
+        ],
+      });
+      const changes = diffSchemas(baseline, after);
+
+      const added = changes.find((c) => c.type === 'variant_added');
+      expect(added!.path).toBe('payments[type=wallet]');
+      expect(added!.severity).toBe('warning');
+
+      const removed = changes.find((c) => c.type === 'variant_removed');
+      expect(removed!.path).toBe('payments[type=bank]');
+      expect(removed!.severity).toBe('info');
+    });
+  });
+
+  // ─── Union Drift ─────────────────────────────────────────────────────
+
+  describe('Union drift', () => {
+    test('reports no drift for identical unions', () => {
+      const before = inferSchema({ values: [1, 'a', true] });
+      const after = inferSchema({ values: [2, 'b', false] });
+      expect(diffSchemas(before, after)).toHaveLength(0);
+    });
+
+    test('reports a removed union member as breaking', () => {
+      const before = inferSchema({ values: [1, 'a', true] });
+      const after = inferSchema({ values: [2, 'b'] });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('union_member_removed');
+      expect(changes[0].severity).toBe('breaking');
+      expect(changes[0].path).toBe('values[]');
+      expect(changes[0].before).toBe('boolean');
+    });
+
+    test('reports an added union member as info', () => {
+      const before = inferSchema({ values: [1, 'a'] });
+      const after = inferSchema({ values: [2, 'b', { id: 1 }] });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('union_member_added');
+      expect(changes[0].severity).toBe('info');
+      expect(changes[0].after).toBe('object');
+    });
+
+    test('recurses into matched object members', () => {
+      const before = inferSchema({ values: ['a', { id: 1, name: 'x' }] });
+      const after = inferSchema({ values: ['b', { id: 2 }] });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_removed');
+      expect(changes[0].path).toBe('values[].name');
+    });
+
+    test('matches members by type when only the format changed', () => {
+      const before = inferSchema({ values: ['2024-01-01', 1] });
+      const after = inferSchema({ values: ['2024-01-01T10:00:00Z', 1] });
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('format_changed');
+    });
+
+    test('compares a plain value against its matching union member', () => {
+      const before = mergeSchemas(inferSchema({ v: 'a' }), inferSchema({ v: 1 }));
+      expect(diffSchemas(before, inferSchema({ v: 2 }))).toHaveLength(0);
+
+      const changes = diffSchemas(before, inferSchema({ v: true }));
+      expect(changes[0].type).toBe('type_changed');
+    });
+
+    test('reports a plain value becoming a union as a breaking type change', () => {
+      const items = diffSchemas(inferSchema({ v: [1, 2] }), inferSchema({ v: [1, 'a'] }));
+      expect(items.map((c) => `${c.type} ${c.path}`)).toEqual(['array_items_changed v', 'homogeneity_changed v']);
+
+      const value = diffSchemas(
+        inferSchema({ v: 'a' }),
+        mergeSchemas(inferSchema({ v: 'b' }), inferSchema({ v: 1 }))
+      );
+      expect(value.map((c) => `${c.severity} ${c.type} ${c.path} ${c.after}`)).toEqual([
+        'breaking type_changed v oneOf(string, number<integer>)',
+      ]);
+    });
+
+    test('treats a plain value gaining a member differently from one fitting a member', () => {
+      const plain = inferSchema({ v: 'a' });
+      const union = mergeSchemas(inferSchema({ v: 'b' }), inferSchema({ v: 1 }));
+
+      expect(diffSchemas(plain, union).map((c) => c.type)).toEqual(['type_changed']);
+      // One sample only shows one member
+      expect(diffSchemas(union, plain)).toHaveLength(0);
+    });
+
+    test('still diffs the matching member of a plain value that became a union', () => {
+      const before = inferSchema({ user: { id: 1 } });
+      const after = mergeSchemas(inferSchema({ user: { id: 1, name: 'A' } }), inferSchema({ user: 'legacy' }));
+
+      expect(diffSchemas(before, after).map((c) => `${c.type} ${c.path}`)).toEqual([
+        'type_changed user',
+        'field_added user.name',
+      ]);
+    });
+  });
+
+  // ─── Request Direction ───────────────────────────────────────────────
+
+  describe('Request direction', () => {
+    const request = { direction: 'request' as const };
+
+    test('reports a removed request field as info', () => {
+      const before = inferSchema({ name: 'Alice', nickname: 'Al' });
+      const after = inferSchema({ name: 'Alice' });
+      const changes = diffSchemas(before, after, '', request);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_removed');
+      expect(changes[0].severity).toBe('info');
+    });
+
+    test('reports a new required request field as breaking', () => {
+      const before = inferSchema({ name: 'Alice' });
+      const after = inferSchema({ name: 'Alice', email: 'a@x.com' });
+      const changes = diffSchemas(before, after, '', request);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('field_added');
+      expect(changes[0].severity).toBe('breaking');
+    });
+
+    test('reports a new optional request field as info', () => {
+      const before = inferSchema({ name: 'Alice' });
+      const after = mergeSchemas(inferSchema({ name: 'Alice' }), inferSchema({ name: 'Bob', note: 'x' }));
+      const changes = diffSchemas(before, after, '', request);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].severity).toBe('info');
+    });
+
+    test('reports optional becoming required as breaking', () => {
+      const before = mergeSchemas(inferSchema({ name: 'Alice' }), inferSchema({ name: 'Bob', note: 'x' }));
+      const after = inferSchema({ name: 'Alice', note: 'y' });
+      const changes = diffSchemas(before, after, '', request);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('required_changed');
+      expect(changes[0].severity).toBe('breaking');
+    });
+
+    test('reports nullable becoming non-null as breaking', () => {
+      const before = mergeSchemas(inferSchema({ note: 'x' }), inferSchema({ note: null }));
+      const after = inferSchema({ note: 'x' });
+      const changes = diffSchemas(before, after, '', request);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('nullable_changed');
+      expect(changes[0].severity).toBe('breaking');
+    });
+
+    test('keeps response severities by default', () => {
+      const before = inferSchema({ name: 'Alice', nickname: 'Al' });
+      const after = inferSchema({ name: 'Alice' });
+      expect(diffSchemas(before, after)[0].severity).toBe('breaking');
+    });
+  });
+
+  // ─── Column Order ────────────────────────────────────────────────────
+
+  describe('Column order', () => {
+    test('reports reordered CSV columns as info', () => {
+      const before = inferSchema(parseCsv('id,name,email\n1,Al,a@x.com'));
+      const after = inferSchema(parseCsv('id,email,name\n1,a@x.com,Al'));
+      const changes = diffSchemas(before, after);
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({
+        type: 'columns_reordered',
+        severity: 'info',
+        path: '[]',
+        before: 'id, name, email',
+        after: 'id, email, name',
+      });
+    });
+
+    test('does not count added or removed columns as a reorder', () => {
+      const before = inferSchema(parseCsv('id,name,email\n1,Al,a@x.com'));
+      const after = inferSchema(parseCsv('id,email\n1,a@x.com'));
+
+      expect(diffSchemas(before, after).map((c) => c.type)).toEqual(['field_removed']);
+    });
+
+    test('reports a column removed from a wide CSV export', () => {
+      const columns = Array.from({ length: 24 }, (_, i) => `col${String.fromCharCode(97 + i)}`);
+      const csv = (cols: string[]) => `${cols.join(',')}\n${cols.map((c) => `${c} text`).join(',')}`;
+
+      const changes = diffSchemas(
+        inferSchema(parseCsv(csv(columns))),
+        inferSchema(parseCsv(csv(columns.filter((c) => c !== 'colc'))))
+      );
+      expect(changes.map((c) => `${c.type} ${c.path}`)).toEqual(['field_removed [].colc']);
+    });
+
+    test('ignores key order in JSON objects', () => {
+      expect(diffSchemas(inferSchema({ a: 1, b: 2 }), inferSchema({ b: 2, a: 1 }))).toHaveLength(0);
+    });
+  });
+
+  // ─── GraphQL Responses ───────────────────────────────────────────────
+
+  describe('GraphQL responses', () => {
+    const ok = inferSchema({ data: { user: { id: 1 } }, extensions: { cost: 3 } });
+
+    test('reports errors appearing in a response that had none', () => {
+      const partial = inferSchema({ data: { user: null }, errors: [{ message: 'denied', path: ['user'] }] });
+      const changes = diffGraphqlSchemas(ok, partial);
+
+      expect(changes.find((c) => c.type === 'errors_appeared')).toMatchObject({
+        severity: 'warning',
+        path: 'errors',
+        after: 'array<object>',
+      });
+      expect(changes.map((c) => c.path)).toContain('data.user');
+      // A missing `extensions` section is not drift
+      expect(changes.map((c) => c.path)).not.toContain('extensions');
+    });
+
+    test('diffs the errors of a baseline that had errors', () => {
+      const before = inferSchema({ data: null, errors: [{ message: 'denied' }] });
+      const after = inferSchema({ data: null, errors: [{ message: 'denied', extensions: { code: 'FORBIDDEN' } }] });
+      const changes = diffGraphqlSchemas(before, after);
+
+      expect(changes.map((c) => `${c.type} ${c.path}`)).toEqual(['field_added errors[].extensions']);
+    });
+
+    test('reports a lost data section as breaking', () => {
+      const changes = diffGraphqlSchemas(ok, inferSchema({ errors: [{ message: 'boom' }] }));
+
+      expect(changes.find((c) => c.path === 'data')).toMatchObject({ type: 'field_removed', severity: 'breaking' });
+    });
+  });
+
   // ─── Real-World Scenario ──────────────────────────────────────────────
 
   describe('Real-world drift scenario', () => {
@@ -3,9 +3,21 @@
  */
 
 import { parseJson, isJson } from '../src/formats/json';
-import { parseXml, isXml } from '../src/formats/xml';
-import { parseGraphqlResponse, isGraphqlResponse } from '../src/formats/graphql';
-import { autoParse } from '../src/formats';
+import { parseXml, parseXmlDocuments, isXml, xmlArrayPaths } from '../src/formats/xml';
+import { inferSchema } from '../src/core/inferrer';
+import { parseYaml, isYaml } from '../src/formats/yaml';
+import { parseNdjson, isNdjson } from '../src/formats/ndjson';
+import { parseCsv, isCsv } from '../src/formats/csv';
+import {
+  parseGraphqlResponse,
+  isGraphqlResponse,
+  graphqlSections,
+  parseGraphqlOperation,
+  graphqlOperationKey,
+} from '../src/formats/graphql';
+import { parseMsgpack } from '../src/formats/msgpack';
+import { autoParse, formatForContentType } from '../src/formats';
+import { encode } from '@msgpack/msgpack';
 
 describe('Format Parsers', () => {
   // ─── JSON Parser ──────────────────────────────────────────────────────
@@ -63,6 +75,52 @@ describe('Format Parsers', () => {
       expect(result.user.name).toBe('Alice');
     });
 
+    test('unwraps SOAP envelopes and strips namespaces in soap mode', () => {
+      const result = parseXml(
+        '<?xml version="1.0"?>' +
+          '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" ' +
+          'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+          '<soap:Header><auth:Token xmlns:auth="urn:auth">abc</auth:Token></soap:Header>' +
+          '<soap:Body><m:GetUserResponse xmlns:m="urn:users">' +
+          '<m:id xsi:type="xsd:int">1</m:id><m:nick xsi:nil="true"/>' +
+          '</m:GetUserResponse></soap:Body></soap:Envelope>',
+        { soap: true }
+      );
+      expect(result).toEqual({ GetUserResponse: { id: 1, nick: null } });
+    });
+
+    test('normalises repeated elements into arrays consistently', () => {
+      const xml =
+        '<orders><order><line>a</line><line>b</line></order><order><line>c</line></order></orders>';
+
+      expect(parseXml(xml)).toEqual({ orders: { order: [{ line: ['a', 'b'] }, { line: 'c' }] } });
+      expect(parseXml(xml, {})).toEqual({ orders: { order: [{ line: ['a', 'b'] }, { line: ['c'] }] } });
+      expect(parseXml('<orders><order><id>1</id></order></orders>', { arrays: ['orders.order'] })).toEqual({
+        orders: { order: [{ id: 1 }] },
+      });
+    });
+
+    test('keeps text nodes of elements that carry attributes anywhere', () => {
+      const result = parseXml('<prices><price currency="EUR">5</price><price>7</price></prices>', {});
+      expect(result).toEqual({
+        prices: { price: [{ '@_currency': 'EUR', '#text': 5 }, { '#text': 7 }] },
+      });
+    });
+
+    test('normalises several documents together', () => {
+      const [one, two] = parseXmlDocuments(
+        ['<users><user><id>1</id></user></users>', '<users><user><id>1</id></user><user><id>2</id></user></users>'],
+        {}
+      );
+      expect(one).toEqual({ users: { user: [{ id: 1 }] } });
+      expect(two).toEqual({ users: { user: [{ id: 1 }, { id: 2 }] } });
+    });
+
+    test('xmlArrayPaths lists array paths of a schema', () => {
+      const schema = inferSchema(parseXml('<a><b><c>1</c><c>2</c></b><b><c>3</c></b></a>', {}));
+      expect(xmlArrayPaths(schema)).toEqual(['a.b', 'a.b.c']);
+    });
+
     test('isXml detects XML', () => {
       expect(isXml('<root><child /></root>')).toBe(true);
     });
@@ -104,6 +162,151 @@ describe('Format Parsers', () => {
     test('isGraphqlResponse rejects non-GraphQL', () => {
       expect(isGraphqlResponse({ id: 1 })).toBe(false);
     });
+
+    test('graphqlSections keeps data, errors and extensions', () => {
+      const sections = graphqlSections(
+        '{"data": {"user": null}, "errors": [{"message": "denied"}], "extensions": {"cost": 3}, "debug": 1}'
+      );
+      expect(sections).toEqual({ data: { user: null }, errors: [{ message: 'denied' }], extensions: { cost: 3 } });
+      expect(graphqlSections({ data: { ok: true }, errors: null })).toEqual({ data: { ok: true } });
+    });
+
+    test('graphqlSections rejects non-GraphQL payloads', () => {
+      expect(() => graphqlSections({ id: 1 })).toThrow('Not a GraphQL response');
+    });
+
+    test('parseGraphqlOperation reads request bodies', () => {
+      expect(parseGraphqlOperation('{"query": "{ me { id } }", "operationName": null, "variables": null}')).toEqual({
+        query: '{ me { id } }',
+      });
+      expect(() => parseGraphqlOperation({ variables: {} })).toThrow('Not a GraphQL request');
+    });
+
+    test('graphqlOperationKey uses the operation name', () => {
+      const query = 'query GetUser($id: ID!) { user(id: $id) { id } } mutation Rename { rename { id } }';
+
+      expect(graphqlOperationKey({ query, operationName: 'GetUser', variables: { id: '1' } })).toBe('query GetUser');
+      expect(graphqlOperationKey({ query, operationName: 'Rename' })).toBe('mutation Rename');
+      expect(() => graphqlOperationKey({ query })).toThrow('several operations');
+      expect(() => graphqlOperationKey({ query, operationName: 'Missing' })).toThrow('"Missing" not found');
+    });
+
+    test('graphqlOperationKey hashes anonymous documents and variable shapes', () => {
+      const key = graphqlOperationKey({ query: '{ users(first: $n) { id } }', variables: { n: 10 } });
+
+      expect(key).toMatch(/^query anonymous-[0-9a-f]{12}$/);
+      // Formatting and variable values do not matter; variable types do
+      expect(graphqlOperationKey({ query: '{\n  users(first: $n) {\n    id\n  }\n}', variables: { n: 50 } })).toBe(key);
+      expect(graphqlOperationKey({ query: '{ users(first: $n) { id } }', variables: { n: '10' } })).not.toBe(key);
+      expect(() => graphqlOperationKey({ query: '{ users' })).toThrow('Failed to parse GraphQL query');
+    });
+  });
+
+  // ─── YAML Parser ─────────────────────────────────────────────────────
+
+  describe('YAML Parser', () => {
+    test('parses YAML mappings', () => {
+      const result = parseYaml('id: 1\nname: Alice\ntags:\n  - admin\n');
+      expect(result).toEqual({ id: 1, name: 'Alice', tags: ['admin'] });
+    });
+
+    test('parses multi-document streams as an array', () => {
+      expect(parseYaml('---\nid: 1\n---\nid: 2\n')).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('throws on invalid YAML', () => {
+      expect(() => parseYaml('a: [1, 2')).toThrow('Failed to parse YAML');
+    });
+
+    test('isYaml detects mappings, sequences and document markers', () => {
+      expect(isYaml('# config\nid: 1\nname: Alice')).toBe(true);
+      expect(isYaml('- a\n- b')).toBe(true);
+      expect(isYaml('---\nid: 1')).toBe(true);
+    });
+
+    test('isYaml rejects plain text, JSON and XML', () => {
+      expect(isYaml('this is plain text')).toBe(false);
+      expect(isYaml('{"id": 1}')).toBe(false);
+      expect(isYaml('<user><id>1</id></user>')).toBe(false);
+    });
+  });
+
+  // ─── NDJSON Parser ───────────────────────────────────────────────────
+
+  describe('NDJSON Parser', () => {
+    test('parses one record per line, skipping blank lines', () => {
+      expect(parseNdjson('{"id":1}\n\n{"id":2}\n')).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('reports the failing line', () => {
+      expect(() => parseNdjson('{"id":1}\n{"id":')).toThrow('line 2');
+    });
+
+    test('isNdjson detects newline-delimited records', () => {
+      expect(isNdjson('{"id":1}\n{"id":2}')).toBe(true);
+    });
+
+    test('isNdjson rejects single-line and pretty-printed JSON', () => {
+      expect(isNdjson('{"id":1}')).toBe(false);
+      expect(isNdjson('{\n  "id": 1\n}')).toBe(false);
+      expect(isNdjson('[\n  {"id": 1},\n  {"id": 2}\n]')).toBe(false);
+    });
+  });
+
+  // ─── CSV Parser ──────────────────────────────────────────────────────
+
+  describe('CSV Parser', () => {
+    test('parses rows into objects with typed cells', () => {
+      const rows = parseCsv('id,name,active,score,zip,note\n1,Alice,true,9.5,00123,\n');
+      expect(rows).toEqual([{ id: 1, name: 'Alice', active: true, score: 9.5, zip: '00123', note: null }]);
+    });
+
+    test('handles quoted cells with delimiters, newlines and escaped quotes', () => {
+      const rows = parseCsv('name,bio\r\n"Smith, J","Said ""hi""\nthen left"\r\n');
+      expect(rows).toEqual([{ name: 'Smith, J', bio: 'Said "hi"\nthen left' }]);
+    });
+
+    test('detects tab and semicolon delimiters', () => {
+      expect(parseCsv('id\tname\n1\tAl')).toEqual([{ id: 1, name: 'Al' }]);
+      expect(parseCsv('id;name\n1;Al')).toEqual([{ id: 1, name: 'Al' }]);
+    });
+
+    test('names blank and duplicate headers', () => {
+      expect(Object.keys(parseCsv('id,,id\n1,2,3')[0])).toEqual(['id', 'column_2', 'id_2']);
+    });
+
+    test('throws on unterminated quotes', () => {
+      expect(() => parseCsv('a,b\n"1,2')).toThrow('unterminated');
+    });
+
+    test('isCsv detects consistent delimited rows', () => {
+      expect(isCsv('id,name\n1,Al\n2,Bo')).toBe(true);
+      expect(isCsv('id\tname\n1\tAl')).toBe(true);
+    });
+
+    test('isCsv rejects ragged rows and single columns', () => {
+      expect(isCsv('id,name\n1,Al,extra')).toBe(false);
+      expect(isCsv('id\n1\n2')).toBe(false);
+      expect(isCsv('id,name')).toBe(false);
+    });
+  });
+
+  // ─── MessagePack Parser ──────────────────────────────────────────────
+
+  describe('MessagePack Parser', () => {
+    test('decodes to plain data', () => {
+      const payload = encode({ id: 1, name: 'Alice', tags: ['a'], avatar: new Uint8Array([1, 2, 3]) });
+      expect(parseMsgpack(payload)).toEqual({ id: 1, name: 'Alice', tags: ['a'], avatar: 'AQID' });
+    });
+
+    test('converts timestamps to ISO strings', () => {
+      const payload = encode({ at: new Date('2024-01-15T10:30:00.000Z') });
+      expect(parseMsgpack(payload)).toEqual({ at: '2024-01-15T10:30:00.000Z' });
+    });
+
+    test('throws on truncated payloads', () => {
+      expect(() => parseMsgpack(encode({ id: 1 }).subarray(0, 3))).toThrow('Failed to parse MessagePack');
+    });
   });
 
   // ─── Auto Parser ─────────────────────────────────────────────────────
@@ -119,6 +322,49 @@ describe('Format Parsers', () => {
       expect(result.user.id).toBe(1);
     });
 
+    test('auto-detects NDJSON as an array of records', () => {
+      expect(autoParse('{"id": 1}\n{"id": 2}')).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('auto-detects YAML', () => {
+      expect(autoParse('id: 1\nname: Alice')).toEqual({ id: 1, name: 'Alice' });
+    });
+
+    test('keeps pretty-printed JSON as JSON', () => {
+      expect(autoParse('[\n  {"id": 1},\n  {"id": 2}\n]')).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('auto-detects CSV as an array of rows', () => {
+      expect(autoParse('id,name\n1,Al\n2,Bo')).toEqual([
+        { id: 1, name: 'Al' },
+        { id: 2, name: 'Bo' },
+      ]);
+    });
+
+    test('honours an explicit format', () => {
+      expect(autoParse('{"id": 1}', 'ndjson')).toEqual([{ id: 1 }]);
+      expect(autoParse('[1, 2]', 'yaml')).toEqual([1, 2]);
+      expect(autoParse('a b\tc\n1\t2', 'tsv')).toEqual([{ 'a b': 1, c: 2 }]);
+    });
+
+    test('detects binary MessagePack buffers and decodes text buffers', () => {
+      expect(autoParse(Buffer.from(encode({ id: 1, ok: true })))).toEqual({ id: 1, ok: true });
+      expect(autoParse(Buffer.from('{"id": 1}'))).toEqual({ id: 1 });
+      expect(autoParse(Buffer.from(encode('text')), 'msgpack')).toBe('text');
+    });
+
+    test('rejects binary formats given as strings', () => {
+      expect(() => autoParse('{}', 'msgpack')).toThrow('pass a Buffer');
+    });
+
+    test('maps content types to formats', () => {
+      expect(formatForContentType('application/x-msgpack')).toBe('msgpack');
+      expect(formatForContentType('avro/binary')).toBe('avro');
+      expect(formatForContentType('application/problem+json; charset=utf-8')).toBe('json');
+      expect(formatForContentType('text/csv')).toBe('csv');
+      expect(formatForContentType(null)).toBe('auto');
+    });
+
     test('throws on unsupported format', () => {
       expect(() => autoParse('this is plain text that cannot be parsed')).toThrow();
     });
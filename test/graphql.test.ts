@@ -0,0 +1,124 @@
+/**
+ * Tests for the GraphQL schema converter and type-by-type diff
+ */
+
+import * as path from 'path';
+import { introspectionFromSchema } from 'graphql';
+import { parseGraphqlSchema, loadGraphqlSchema, fromGraphqlSchema, diffGraphqlTypes } from '../src/convert';
+import { SchemaGuard } from '../src/guard';
+import { formatGraphqlSchemaReport } from '../src/core/reporter';
+
+const SCHEMA_FILE = path.join(__dirname, 'fixtures', 'schema.graphql');
+const SCHEMA_V2_FILE = path.join(__dirname, 'fixtures', 'schema-v2.graphql');
+
+describe('GraphQL schemas', () => {
+  // ─── Loading ─────────────────────────────────────────────────────────
+
+  describe('parseGraphqlSchema', () => {
+    test('reads SDL and introspection results alike', () => {
+      const sdl = loadGraphqlSchema(SCHEMA_FILE);
+      const introspection = introspectionFromSchema(sdl);
+
+      expect(fromGraphqlSchema(parseGraphqlSchema(introspection))).toEqual(fromGraphqlSchema(sdl));
+      expect(fromGraphqlSchema(parseGraphqlSchema(JSON.stringify({ data: introspection })))).toEqual(
+        fromGraphqlSchema(sdl)
+      );
+    });
+
+    test('rejects invalid documents', () => {
+      expect(() => parseGraphqlSchema('type Query { user: Missing }')).toThrow('Failed to parse GraphQL schema');
+    });
+  });
+
+  // ─── Conversion ──────────────────────────────────────────────────────
+
+  describe('fromGraphqlSchema', () => {
+    const types = fromGraphqlSchema(loadGraphqlSchema(SCHEMA_FILE));
+
+    test('keys nodes by type name, plus field arguments', () => {
+      expect(Object.keys(types).sort()).toEqual([
+        'AuditEntry',
+        'Mutation',
+        'Mutation.updateUser(args)',
+        'Query',
+        'Query.user(args)',
+        'Query.users(args)',
+        'Role',
+        'UpdateUserInput',
+        'User',
+      ]);
+    });
+
+    test('maps nullability, lists, scalars and enums', () => {
+      const user = types.User.properties!;
+
+      expect(user.id).toEqual({ type: 'string', nullable: false });
+      expect(user.email).toEqual({ type: 'string', nullable: true });
+      expect(user.manager).toEqual({ type: 'object', nullable: true });
+      expect(user.tags).toEqual({ type: 'array', nullable: false, items: { type: 'string', nullable: false } });
+      expect(types.Query.properties!.users.items).toEqual({ type: 'object', nullable: false });
+      expect(types.Role.enum).toEqual(['ADMIN', 'MEMBER', 'GUEST']);
+    });
+
+    test('requires only non-null arguments without a default', () => {
+      expect(types['Query.user(args)'].required).toEqual(['id']);
+      expect(types['Query.users(args)'].required).toEqual([]);
+      expect(types['Query.users(args)'].properties!.first.format).toBe('integer');
+    });
+  });
+
+  // ─── Diffing ─────────────────────────────────────────────────────────
+
+  describe('diffGraphqlTypes', () => {
+    const diffs = diffGraphqlTypes(loadGraphqlSchema(SCHEMA_FILE), loadGraphqlSchema(SCHEMA_V2_FILE));
+    const changesOf = (key: string) =>
+      diffs.find((d) => d.key === key)!.changes.map((c) => `${c.severity} ${c.type} ${c.path}`);
+
+    test('reports output field changes', () => {
+      expect(changesOf('User').sort()).toEqual([
+        'breaking field_removed email',
+        'breaking nullable_changed name',
+        'breaking type_changed manager',
+        'info field_added avatarUrl',
+      ]);
+    });
+
+    test('treats arguments and input fields as sent by clients', () => {
+      expect(changesOf('Query.user(args)').sort()).toEqual([
+        'breaking field_added tenant',
+        'breaking field_removed includeArchived',
+      ]);
+      expect(changesOf('UpdateUserInput')).toEqual(['breaking nullable_changed name']);
+      expect(changesOf('Query.users(args)')).toEqual([]);
+    });
+
+    test('reports enum values and added or removed types', () => {
+      expect(changesOf('Role')).toEqual(['warning enum_value_added (root)', 'breaking enum_value_removed (root)']);
+      expect(changesOf('AuditEntry')).toEqual(['breaking type_removed (type)']);
+      expect(changesOf('Account')).toEqual(['info type_added (type)']);
+    });
+
+    test('relaxing a schema is not breaking', () => {
+      const reverse = diffGraphqlTypes(loadGraphqlSchema(SCHEMA_V2_FILE), loadGraphqlSchema(SCHEMA_FILE));
+      const user = reverse.find((d) => d.key === 'User')!.changes;
+
+      expect(user.find((c) => c.path === 'name')).toMatchObject({ type: 'nullable_changed', severity: 'info' });
+    });
+  });
+
+  // ─── SchemaGuard ─────────────────────────────────────────────────────
+
+  describe('guard.diffGraphqlSchema', () => {
+    test('reports one section per changed type', () => {
+      const guard = new SchemaGuard({ store: path.join(__dirname, '.test-schemas') });
+      const report = guard.diffGraphqlSchema(SCHEMA_FILE, SCHEMA_V2_FILE);
+
+      expect(report.hasBreakingChanges).toBe(true);
+      expect(report.types.filter((t) => t.changes.length > 0)).toHaveLength(6);
+
+      const formatted = formatGraphqlSchemaReport(report, 'markdown');
+      expect(formatted).toContain('GraphQL Schema Diff');
+      expect(formatted).toContain('Query.user(args)');
+    });
+  });
+});
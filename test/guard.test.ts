@@ -5,6 +5,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { SchemaGuard } from '../src/guard';
+import { fromJsonSchema } from '../src/convert';
 
 const TEST_STORE = path.join(__dirname, '.test-schemas');
 
@@ -186,6 +187,84 @@ describe('SchemaGuard', () => {
       const report = await guard.check('GET /users/1', jsonStr);
       expect(report.compatibilityScore).toBe(100);
     });
+
+    test('keeps single-element XML lists as arrays once the snapshot has seen a list', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE, xml: { soap: true } });
+      const envelope = (users: string) =>
+        '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>' +
+        `<m:GetUsersResponse xmlns:m="urn:users">${users}</m:GetUsersResponse></soap:Body></soap:Envelope>`;
+
+      await guard.snapshot('GetUsers', envelope('<m:user><m:id>1</m:id></m:user><m:user><m:id>2</m:id></m:user>'));
+      const report = await guard.check('GetUsers', envelope('<m:user><m:id>3</m:id></m:user>'));
+
+      expect(report.changes).toEqual([]);
+      expect(await guard.xmlOptionsFor('GetUsers')).toEqual({ soap: true, arrays: ['GetUsersResponse.user'] });
+    });
+
+    test('diffData applies the XML array paths of both documents to both', () => {
+      const guard = new SchemaGuard({ store: TEST_STORE, xml: {} });
+
+      const report = guard.diffData(
+        '<users><user><id>1</id></user><user><id>2</id></user></users>',
+        '<users><user><id>3</id></user></users>'
+      );
+
+      expect(report.changes).toEqual([]);
+    });
+  });
+
+  // ─── GraphQL Responses ───────────────────────────────────────────────
+
+  describe('GraphQL responses', () => {
+    test('tracks data, errors and extensions under one key', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const snap = await guard.snapshot(
+        'query GetUser',
+        { data: { user: { id: 1 } }, extensions: { cost: 3 } },
+        undefined,
+        { graphql: true }
+      );
+      expect(Object.keys(snap.schema.properties!)).toEqual(['data', 'extensions']);
+      expect(snap.metadata!.graphql).toBe(true);
+
+      // The stored flag keeps later checks in GraphQL mode
+      const report = await guard.check('query GetUser', {
+        data: { user: null },
+        errors: [{ message: 'denied', extensions: { code: 'FORBIDDEN' } }],
+        extensions: { cost: 3 },
+      });
+      expect(report.changes.map((c) => `${c.type} ${c.path}`)).toEqual([
+        'nesting_changed data.user',
+        'errors_appeared errors',
+      ]);
+    });
+
+    test('diffs GraphQL responses directly', () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const report = guard.diffData({ data: { id: 1 } }, { data: { id: 1 }, errors: [{ message: 'x' }] }, 'q', {
+        graphql: true,
+      });
+
+      expect(report.changes.map((c) => c.type)).toEqual(['errors_appeared']);
+    });
+
+    test('keys responses by operation and stores the query', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const getUser = { query: 'query GetUser { user { id name } }' };
+      const listUsers = { query: '{ users { id } }' };
+
+      const snap = await guard.snapshotGraphql(getUser, { data: { user: { id: 1, name: 'Alice' } } });
+      await guard.snapshotGraphql(listUsers, '{"data": {"users": [{"id": 1}]}}');
+
+      expect(snap.key).toBe('query GetUser');
+      expect(snap.metadata).toMatchObject({ graphql: true, query: getUser.query });
+      expect(await guard.listKeys()).toHaveLength(2);
+
+      // Each operation is checked against its own baseline
+      const report = await guard.checkGraphql(getUser, { data: { user: { id: 1 } } });
+      expect(report.changes.map((c) => `${c.type} ${c.path}`)).toEqual(['field_removed data.user.name']);
+      expect((await guard.checkGraphql(listUsers, { data: { users: [{ id: 2 }] } })).changes).toEqual([]);
+    });
   });
 
   // ─── Severity Filtering ──────────────────────────────────────────────
@@ -205,5 +284,185 @@ describe('SchemaGuard', () => {
       expect(report.summary.info).toBe(0);
     });
   });
-});
 
+  // ─── Severity Rules ──────────────────────────────────────────────────
+
+  describe('Severity rules', () => {
+    test('applies rules in check()', async () => {
+      const guard = new SchemaGuard({
+        store: TEST_STORE,
+        rules: [{ key: 'GET /internal/*', type: 'field_removed', severity: 'warning' }],
+      });
+
+      await guard.check('GET /internal/users', { id: 1, name: 'Alice' });
+      const report = await guard.check('GET /internal/users', { id: 1 });
+
+      expect(report.hasBreakingChanges).toBe(false);
+      expect(report.summary.warning).toBe(1);
+    });
+
+    test('applies rules in diffData() using the given key', () => {
+      const guard = new SchemaGuard({
+        store: TEST_STORE,
+        rules: [{ key: 'GET /internal/*', path: 'debug', severity: 'ignore' }],
+      });
+
+      const report = guard.diffData({ id: 1, debug: { a: 1 } }, { id: 1 }, 'GET /internal/users');
+      expect(report.changes).toHaveLength(0);
+      expect(report.key).toBe('GET /internal/users');
+    });
+  });
+
+  // ─── Field Masking ───────────────────────────────────────────────────
+
+  describe('Ignored fields', () => {
+    test('ignores volatile fields in check()', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE, ignore: ['debug', '**.traceId'] });
+
+      await guard.check('GET /users/1', { id: 1, debug: { sql: 'x' }, traceId: 'a' });
+      const report = await guard.check('GET /users/1', { id: 1, debug: 'off' });
+
+      expect(report.changes).toHaveLength(0);
+    });
+
+    test('persists ignore patterns with the snapshot for later runs', async () => {
+      const first = new SchemaGuard({ store: TEST_STORE, ignore: ['debug'] });
+      const snap = await first.snapshot('GET /users/1', { id: 1, debug: { sql: 'x' } });
+
+      expect(snap.metadata!.ignore).toEqual(['debug']);
+      expect(snap.schema.properties!['debug']).toBeUndefined();
+
+      const later = new SchemaGuard({ store: TEST_STORE });
+      const report = await later.check('GET /users/1', { id: 1, debug: [1, 2] });
+      expect(report.changes).toHaveLength(0);
+    });
+
+    test('strips ignored fields before inference', () => {
+      const guard = new SchemaGuard({ store: TEST_STORE, ignore: ['**.debug'] });
+
+      // Left in, `debug` would stop `users` from being inferred as a map keyed by ID
+      const report = guard.diffData(
+        { users: { usr_1a2b3c: { name: 'A' }, usr_4d5e6f: { name: 'B' }, debug: { ms: 1 } } },
+        { users: { usr_7a8b9c: { name: 'C' }, usr_0d1e2f: { name: 'D' }, debug: { ms: 2 } } }
+      );
+
+      expect(report.changes).toHaveLength(0);
+    });
+  });
+
+  // ─── Direction ───────────────────────────────────────────────────────
+
+  describe('Request direction', () => {
+    test('persists direction with the snapshot and applies it in check()', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const snap = await guard.snapshot('POST /users', { name: 'Alice', nickname: 'Al' }, undefined, {
+        direction: 'request',
+      });
+      expect(snap.direction).toBe('request');
+
+      const report = await guard.check('POST /users', { name: 'Bob' });
+      expect(report.changes).toHaveLength(1);
+      expect(report.changes[0].severity).toBe('info');
+      expect(report.hasBreakingChanges).toBe(false);
+    });
+
+    test('flags new required request fields as breaking', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE, direction: 'request' });
+      await guard.check('POST /users', { name: 'Alice' });
+      const report = await guard.check('POST /users', { name: 'Bob', email: 'b@x.com' });
+
+      expect(report.hasBreakingChanges).toBe(true);
+    });
+
+    test('lets a per-call direction override the stored one in diff()', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.snapshot('POST /users', { name: 'Alice' }, 1, { direction: 'request' });
+      await guard.snapshot('POST /users', { name: 'Bob', email: 'b@x.com' }, 2, { direction: 'request' });
+
+      expect((await guard.diff('POST /users', 1, 2)).hasBreakingChanges).toBe(true);
+      expect((await guard.diff('POST /users', 1, 2, { direction: 'response' })).hasBreakingChanges).toBe(false);
+    });
+  });
+
+  // ─── Imported Baselines ──────────────────────────────────────────────
+
+  describe('Imported schemas', () => {
+    const declared = fromJsonSchema({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        nick: { type: ['string', 'null'] },
+        price: { type: 'number' },
+      },
+      required: ['id', 'price'],
+    });
+
+    test('stores the schema as a new version with its source', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.snapshot('GET /items/1', { id: 1 });
+      const snap = await guard.importSchema('GET /items/1', declared, {
+        format: 'jsonschema',
+        location: 'items.schema.json',
+      });
+
+      expect(snap.version).toBe(2);
+      expect(snap.metadata!.source).toEqual({ format: 'jsonschema', location: 'items.schema.json' });
+    });
+
+    test('checks responses against the declared contract', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.importSchema('GET /items/1', declared, { format: 'jsonschema' });
+
+      // Optional field absent, nullable field with a value, float for a plain number
+      const ok = await guard.check('GET /items/1', { id: 1, price: 9.5 });
+      expect(ok.changes).toHaveLength(0);
+      const alsoOk = await guard.check('GET /items/1', { id: 1, nick: 'al', price: 3 });
+      expect(alsoOk.changes).toHaveLength(0);
+
+      const broken = await guard.check('GET /items/1', { id: '1' });
+      expect(broken.changes.map((c) => c.type).sort()).toEqual(['field_removed', 'type_changed']);
+    });
+
+    test('keeps the baseline declared when samples are merged into it', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.importSchema('GET /items/1', declared, { format: 'jsonschema' });
+
+      const snap = await guard.snapshot('GET /items/1', { id: 1, price: 2 });
+      expect(snap.version).toBe(1);
+      expect(snap.metadata!.source).toEqual({ format: 'jsonschema' });
+
+      // Still a contract: the optional field may be absent, the nullable one may hold a value
+      const report = await guard.check('GET /items/1', { id: 2, nick: 'al', price: 3 });
+      expect(report.changes).toHaveLength(0);
+    });
+
+    test('reports values outside a declared enum', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const schema = fromJsonSchema({
+        type: 'object',
+        properties: { status: { type: 'string', enum: ['active', 'suspended'] } },
+        required: ['status'],
+      });
+      await guard.importSchema('GET /accounts/1', schema, { format: 'jsonschema' });
+
+      expect((await guard.check('GET /accounts/1', { status: 'active' })).changes).toEqual([]);
+
+      const report = await guard.check('GET /accounts/1', { status: 'archived' });
+      expect(report.changes.map((c) => `${c.type} ${c.path}`)).toEqual(['enum_value_added status']);
+    });
+
+    test('reports values outside a declared enum when diffing versions', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const schema = fromJsonSchema({
+        type: 'object',
+        properties: { status: { type: 'string', enum: ['active', 'suspended'] } },
+        required: ['status'],
+      });
+      await guard.importSchema('GET /accounts/1', schema, { format: 'jsonschema' });
+      await guard.snapshot('GET /accounts/1', { status: 'archived' }, 2);
+
+      const report = await guard.diff('GET /accounts/1', 1, 2);
+      expect(report.changes.map((c) => `${c.type} ${c.path}`)).toContain('enum_value_added status');
+    });
+  });
+});
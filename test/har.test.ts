@@ -0,0 +1,151 @@
+/**
+ * Tests for the HAR Reader and HAR snapshotting/checking
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadHar, parseHar, harEntryKey, harSamples } from '../src/formats/har';
+import { formatHarReport } from '../src/core/reporter';
+import { HarDocument } from '../src/core/types';
+import { SchemaGuard } from '../src/guard';
+
+const HAR_FILE = path.join(__dirname, 'fixtures', 'session.har');
+const TEST_STORE = path.join(__dirname, '.test-schemas');
+
+beforeEach(() => {
+  if (fs.existsSync(TEST_STORE)) {
+    fs.rmSync(TEST_STORE, { recursive: true, force: true });
+  }
+});
+
+afterAll(() => {
+  if (fs.existsSync(TEST_STORE)) {
+    fs.rmSync(TEST_STORE, { recursive: true, force: true });
+  }
+});
+
+/** The fixture with the first user response replaced */
+function withUser(user: Record<string, unknown>): HarDocument {
+  const har = loadHar(HAR_FILE);
+  har.log.entries[0].response.content!.text = JSON.stringify(user);
+  return har;
+}
+
+describe('HAR Reader', () => {
+  // ─── Loading ─────────────────────────────────────────────────────────
+
+  describe('Loading', () => {
+    test('rejects documents without log entries', () => {
+      expect(() => parseHar('{"log": {}}')).toThrow('log.entries');
+      expect(() => parseHar('not json')).toThrow('Failed to parse HAR file');
+    });
+  });
+
+  // ─── Keys ────────────────────────────────────────────────────────────
+
+  describe('harEntryKey', () => {
+    test('templates ID segments and drops host and query', () => {
+      expect(harEntryKey('get', 'https://api.example.com/users/42?expand=teams')).toBe('GET /users/:id');
+      expect(harEntryKey('GET', 'https://x.io/docs/3f2b9c1e-6a4d-4e8b-9a7c-1d2e3f4a5b6c')).toBe('GET /docs/:id');
+      expect(harEntryKey('GET', 'https://x.io/items/507f1f77bcf86cd799439011')).toBe('GET /items/:id');
+      expect(harEntryKey('GET', 'https://x.io/v2/users/me')).toBe('GET /v2/users/me');
+    });
+
+    test('keeps segments with a stray % as they are', () => {
+      expect(harEntryKey('GET', 'https://x.io/files/100%/x')).toBe('GET /files/100%/x');
+      expect(harEntryKey('GET', 'https://x.io/files/42/50%25')).toBe('GET /files/:id/50%25');
+    });
+
+    test('numbers further IDs in the same path', () => {
+      expect(harEntryKey('GET', 'https://x.io/orgs/1/members/2')).toBe('GET /orgs/:id/members/:id2');
+    });
+  });
+
+  // ─── Samples ─────────────────────────────────────────────────────────
+
+  describe('harSamples', () => {
+    const { samples, skipped } = harSamples(loadHar(HAR_FILE));
+
+    test('decodes base64 bodies and parses by content type', () => {
+      expect(samples.map((s) => s.key)).toEqual([
+        'GET /api/users/:id',
+        'GET /api/users/:id',
+        'GET /api/users',
+        'GET /api/reports/:id',
+      ]);
+      expect(samples[1].data).toEqual({ id: 7, name: 'Bob', email: null });
+      expect(samples[3].data).toEqual([
+        { id: 1, total: 9.5 },
+        { id: 2, total: 12 },
+      ]);
+    });
+
+    test('skips pages, assets, errors and empty bodies with a reason', () => {
+      expect(skipped.map((s) => s.reason)).toEqual([
+        'content type text/html',
+        'content type image/png',
+        'status 404',
+        'empty body',
+      ]);
+      expect(skipped[2].entry).toBe('GET https://api.example.com/api/users/99');
+    });
+
+    test('filters entries by URL', () => {
+      const filtered = harSamples(loadHar(HAR_FILE), { filter: /\/reports\// });
+      expect(filtered.samples.map((s) => s.key)).toEqual(['GET /api/reports/:id']);
+      expect(filtered.skipped).toHaveLength(0);
+    });
+  });
+
+  // ─── SchemaGuard ─────────────────────────────────────────────────────
+
+  describe('SchemaGuard.snapshotHar', () => {
+    test('snapshots one key per endpoint, merging repeated entries', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      const { snapshots, skipped } = await guard.snapshotHar(HAR_FILE);
+
+      expect(snapshots.map((s) => s.key)).toEqual(['GET /api/users/:id', 'GET /api/users', 'GET /api/reports/:id']);
+      expect(snapshots[0].sampleCount).toBe(2);
+      expect(snapshots[0].schema.properties!.email.nullable).toBe(true);
+      expect(skipped).toHaveLength(4);
+    });
+  });
+
+  describe('SchemaGuard.checkHar', () => {
+    test('reports drift per endpoint with an overall summary', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.snapshotHar(HAR_FILE);
+
+      const report = await guard.checkHar(withUser({ id: '42', name: 'Alice', email: 'alice@example.com' }));
+      const users = report.endpoints.find((e) => e.key === 'GET /api/users/:id')!;
+
+      expect(report.endpoints).toHaveLength(3);
+      expect(users.changes.map((c) => c.type)).toContain('type_changed');
+      expect(report.hasBreakingChanges).toBe(true);
+      expect(report.summary.total).toBe(users.changes.length);
+      expect(report.compatibilityScore).toBe(users.compatibilityScore);
+    });
+
+    test('is clean when replaying the recorded session', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.snapshotHar(HAR_FILE);
+
+      const report = await guard.checkHar(HAR_FILE);
+
+      expect(report.source).toBe(HAR_FILE);
+      expect(report.summary.total).toBe(0);
+      expect(report.compatibilityScore).toBe(100);
+    });
+
+    test('formats changed endpoints as markdown sections', async () => {
+      const guard = new SchemaGuard({ store: TEST_STORE });
+      await guard.snapshotHar(HAR_FILE);
+
+      const markdown = formatHarReport(await guard.checkHar(withUser({ id: 42, name: 'Alice' })), 'markdown');
+
+      expect(markdown).toContain('# 🔍 HAR Check Report');
+      expect(markdown).toContain('## GET /api/users/:id');
+      expect(markdown).toContain('4 skipped entries');
+    });
+  });
+});
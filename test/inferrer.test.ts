@@ -189,6 +189,185 @@ describe('Schema Inference Engine', () => {
     });
   });
 
+  // ─── Enum Tracking ─────────────────────────────────────────────────────
+
+  describe('Enum value tracking', () => {
+    test('records the observed value for plain strings', () => {
+      const schema = inferSchema({ status: 'active', priority: 2 });
+      expect(schema.properties!['status'].enum).toEqual(['active']);
+      expect(schema.properties!['priority'].enum).toBeUndefined();
+    });
+
+    test('tracks numbers only when numericEnums is set', () => {
+      const options = { numericEnums: true };
+      expect(inferSchema(2).enum).toBeUndefined();
+      expect(inferSchema(2, options).enum).toEqual([2]);
+    });
+
+    test('does not track formatted or long strings', () => {
+      const schema = inferSchema({ email: 'a@b.com', bio: 'x'.repeat(100) });
+      expect(schema.properties!['email'].enum).toBeUndefined();
+      expect(schema.properties!['bio'].enum).toBeUndefined();
+    });
+
+    test('accumulates distinct values across samples', () => {
+      const merged = [
+        { status: 'active' },
+        { status: 'suspended' },
+        { status: 'active' },
+      ]
+        .map((s) => inferSchema(s))
+        .reduce((a, b) => mergeSchemas(a, b));
+
+      expect(merged.properties!['status'].enum).toEqual(['active', 'suspended']);
+      expect(merged.properties!['status'].sampleCount).toBe(3);
+    });
+
+    test('stops tracking once the cardinality cap is exceeded', () => {
+      const options = { maxEnumValues: 2 };
+      const schema = inferSchema(['a', 'b', 'c'], options);
+      expect(schema.items!.enum).toBeUndefined();
+
+      const capped = mergeSchemas(schema.items!, inferSchema('a', options), options);
+      expect(capped.enum).toBeUndefined();
+    });
+
+    test('maxEnumValues of 0 disables tracking', () => {
+      const schema = inferSchema('active', { maxEnumValues: 0 });
+      expect(schema.enum).toBeUndefined();
+    });
+  });
+
+  // ─── Range Statistics ──────────────────────────────────────────────────
+
+  describe('Range statistics', () => {
+    test('records numeric value and string length bounds', () => {
+      const schema = inferSchema({ price: 9.99, code: 'ABC' });
+      expect(schema.properties!['price'].minimum).toBe(9.99);
+      expect(schema.properties!['price'].maximum).toBe(9.99);
+      expect(schema.properties!['code'].minLength).toBe(3);
+      expect(schema.properties!['code'].maxLength).toBe(3);
+    });
+
+    test('widens bounds when merging samples', () => {
+      const schema = inferSchema([{ qty: 5, sku: 'A1' }, { qty: -2, sku: 'B-100' }]);
+      const item = schema.items!;
+      expect(item.properties!['qty'].minimum).toBe(-2);
+      expect(item.properties!['qty'].maximum).toBe(5);
+      expect(item.properties!['sku'].minLength).toBe(2);
+      expect(item.properties!['sku'].maxLength).toBe(5);
+    });
+  });
+
+  // ─── Map Detection ─────────────────────────────────────────────────────
+
+  describe('Map detection', () => {
+    test('infers objects keyed by IDs as maps', () => {
+      const schema = inferSchema({
+        users: {
+          u_123: { name: 'Alice', age: 30 },
+          u_456: { name: 'Bob', age: 25 },
+        },
+      });
+
+      const users = schema.properties!['users'];
+      expect(users.type).toBe('object');
+      expect(users.properties).toBeUndefined();
+      expect(users.additionalProperties!.type).toBe('object');
+      expect(users.additionalProperties!.properties!['name'].type).toBe('string');
+    });
+
+    test('recognises numeric, uuid and date keys', () => {
+      expect(inferSchema({ '1': 1, '2': 2 }).additionalProperties).toBeDefined();
+      expect(
+        inferSchema({ '550e8400-e29b-41d4-a716-446655440000': true }).additionalProperties
+      ).toBeDefined();
+      expect(inferSchema({ '2024-01-01': 10, '2024-01-02': 12 }).additionalProperties).toBeDefined();
+    });
+
+    test('infers large objects with uniform object values as maps', () => {
+      const obj: Record<string, { value: number }> = {};
+      for (let i = 0; i < 25; i++) obj[`sensor${String.fromCharCode(97 + i)}`] = { value: i };
+      expect(inferSchema(obj).additionalProperties!.properties!['value'].type).toBe('number');
+    });
+
+    test('keeps wide records of primitives as named properties', () => {
+      const obj: Record<string, number> = {};
+      for (let i = 0; i < 25; i++) obj[`field${String.fromCharCode(97 + i)}`] = i;
+      expect(inferSchema(obj).additionalProperties).toBeUndefined();
+    });
+
+    test('keeps regular objects as named properties', () => {
+      const schema = inferSchema({ id: 1, name: 'Alice', line_1: 'Main St' });
+      expect(schema.additionalProperties).toBeUndefined();
+      expect(Object.keys(schema.properties!)).toEqual(['id', 'name', 'line_1']);
+
+      // Prefixed keys need an id-like suffix
+      expect(inferSchema({ addr_line1: 'a', addr_line2: 'b' }).additionalProperties).toBeUndefined();
+      expect(inferSchema({ evt_9f3a2b: 1, evt_01ARZ3NDEKTSV4RRFFQ69G5FAV: 2 }).additionalProperties).toBeDefined();
+    });
+
+    test('can be disabled', () => {
+      const schema = inferSchema({ '1': 'a', '2': 'b' }, { detectMaps: false });
+      expect(schema.additionalProperties).toBeUndefined();
+      expect(schema.properties!['1'].type).toBe('string');
+    });
+
+    test('merging a map with an empty object keeps the map', () => {
+      const merged = mergeSchemas(inferSchema({ '10': { ok: true } }), inferSchema({}));
+      expect(merged.additionalProperties!.properties!['ok'].type).toBe('boolean');
+    });
+  });
+
+  // ─── Discriminated Unions ──────────────────────────────────────────────
+
+  describe('Discriminated union inference', () => {
+    const payments = [
+      { type: 'card', amount: 10, last4: '4242' },
+      { type: 'bank', amount: 20, iban: 'DE89370400440532013000' },
+      { type: 'card', amount: 5, last4: '1881' },
+    ];
+
+    test('splits polymorphic array items into variants', () => {
+      const items = inferSchema(payments).items!;
+      expect(items.discriminator).toBe('type');
+      expect(items.oneOf!.map((v) => v.discriminatorValue)).toEqual(['card', 'bank']);
+
+      const bank = items.oneOf!.find((v) => v.discriminatorValue === 'bank')!;
+      expect(bank.required).toContain('iban');
+      expect(bank.properties!['last4']).toBeUndefined();
+    });
+
+    test('does not split items with the same shape', () => {
+      const items = inferSchema([
+        { type: 'card', amount: 10 },
+        { type: 'bank', amount: 20 },
+      ]).items!;
+      expect(items.discriminator).toBeUndefined();
+    });
+
+    test('does not treat unique free-text fields as discriminators', () => {
+      const items = inferSchema([
+        { name: 'Alice', email: 'a@b.com' },
+        { name: 'Bob' },
+      ]).items!;
+      expect(items.discriminator).toBeUndefined();
+    });
+
+    test('merges later samples into the matching variant', () => {
+      const a = inferSchema(payments);
+      const b = inferSchema([
+        { type: 'bank', amount: 1, iban: 'GB33BUKB20201555555555', bic: 'BUKBGB22' },
+      ]);
+      const merged = mergeSchemas(a, b);
+
+      const bank = merged.items!.oneOf!.find((v) => v.discriminatorValue === 'bank')!;
+      expect(bank.properties!['bic']).toBeDefined();
+      expect(bank.required).not.toContain('bic');
+      expect(merged.items!.oneOf).toHaveLength(2);
+    });
+  });
+
   // ─── Real-World API Response ──────────────────────────────────────────
 
   describe('Real-world API response inference', () => {
@@ -290,6 +469,13 @@ describe('Schema Inference Engine', () => {
       expect(merged.oneOf!.length).toBe(2);
     });
 
+    test('keeps union members when merging a union with another sample', () => {
+      const union = mergeSchemas(inferSchema(42), inferSchema('hello'));
+      const merged = mergeSchemas(union, inferSchema(true));
+
+      expect(merged.oneOf!.map((m) => m.type)).toEqual(['number', 'string', 'boolean']);
+    });
+
     test('tracks sample count', () => {
       const a = inferSchema({ id: 1 });
       const b = inferSchema({ id: 2 });
@@ -0,0 +1,225 @@
+/**
+ * Tests for the JSON Schema Converter
+ */
+
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { inferSchema, mergeSchemas } from '../src/core/inferrer';
+import {
+  toJsonSchema,
+  snapshotToJsonSchema,
+  toAjvSchema,
+  fromJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  AJV_SCHEMA_DIALECT,
+} from '../src/convert';
+import { diffSchemas } from '../src/core/differ';
+import { SchemaSnapshot } from '../src/core/types';
+
+describe('JSON Schema Converter', () => {
+  // ─── Export ──────────────────────────────────────────────────────────
+
+  describe('toJsonSchema', () => {
+    test('converts primitives, formats and required fields', () => {
+      const schema = toJsonSchema(
+        inferSchema({ id: 1, price: 9.5, email: 'a@b.com', createdAt: '2024-01-01T10:00:00Z', ok: true })
+      );
+
+      expect(schema.type).toBe('object');
+      expect(schema.properties!['id']).toEqual({ type: 'integer' });
+      expect(schema.properties!['price']).toEqual({ type: 'number' });
+      expect(schema.properties!['email']).toEqual({ type: 'string', format: 'email' });
+      expect(schema.properties!['createdAt']).toEqual({ type: 'string', format: 'date-time' });
+      expect(schema.properties!['ok']).toEqual({ type: 'boolean' });
+      expect(schema.required).toEqual(['id', 'price', 'email', 'createdAt', 'ok']);
+    });
+
+    test('expresses nullability with a type array', () => {
+      const node = mergeSchemas(inferSchema({ name: 'Alice' }), inferSchema({ name: null }));
+      expect(toJsonSchema(node).properties!['name'].type).toEqual(['string', 'null']);
+    });
+
+    test('omits optional fields from required', () => {
+      const node = mergeSchemas(inferSchema({ id: 1, nick: 'al' }), inferSchema({ id: 2 }));
+      expect(toJsonSchema(node).required).toEqual(['id']);
+    });
+
+    test('converts arrays and nested objects', () => {
+      const schema = toJsonSchema(inferSchema({ tags: ['a'], user: { id: 1 } }));
+
+      expect(schema.properties!['tags']).toEqual({ type: 'array', items: { type: 'string' } });
+      expect(schema.properties!['user'].properties!['id']).toEqual({ type: 'integer' });
+    });
+
+    test('converts maps to additionalProperties', () => {
+      const schema = toJsonSchema(inferSchema({ users: { u_123: { name: 'A' }, u_456: { name: 'B' } } }));
+      const users = schema.properties!['users'];
+
+      expect(users.properties).toBeUndefined();
+      expect((users.additionalProperties as { type: string }).type).toBe('object');
+    });
+
+    test('converts unions to oneOf', () => {
+      const node = mergeSchemas(inferSchema({ v: 'a' }), inferSchema({ v: 1 }));
+      const v = toJsonSchema(node).properties!['v'];
+      expect(v.oneOf).toEqual([{ type: 'string' }, { type: 'integer' }]);
+    });
+
+    test('pins the discriminator of each variant with const', () => {
+      const schema = toJsonSchema(
+        inferSchema({
+          payments: [
+            { type: 'card', last4: '4242' },
+            { type: 'bank', iban: 'DE00' },
+          ],
+        })
+      );
+      const variants = schema.properties!['payments'].items!.oneOf!;
+
+      expect(variants).toHaveLength(2);
+      expect(variants[0].properties!['type']).toEqual({ const: 'card' });
+      expect(variants[1].properties!['iban']).toEqual({ type: 'string' });
+    });
+  });
+
+  // ─── Snapshot Documents ──────────────────────────────────────────────
+
+  describe('snapshotToJsonSchema', () => {
+    test('produces a standalone 2020-12 document titled by key', () => {
+      const snapshot: SchemaSnapshot = {
+        key: 'GET /api/users',
+        schema: inferSchema({ id: 1 }),
+        timestamp: '2024-06-15T10:00:00Z',
+        version: 2,
+        sampleCount: 3,
+      };
+      const doc = snapshotToJsonSchema(snapshot);
+
+      expect(doc.$schema).toBe(JSON_SCHEMA_DIALECT);
+      expect(doc.title).toBe('GET /api/users');
+      expect(doc.type).toBe('object');
+      expect(doc.properties!['id']).toEqual({ type: 'integer' });
+    });
+
+    test('targets draft-07 for Ajv', () => {
+      const doc = toAjvSchema(inferSchema({ id: 1 }));
+
+      expect(doc.$schema).toBe(AJV_SCHEMA_DIALECT);
+      expect(doc.properties!['id']).toEqual({ type: 'integer' });
+    });
+
+    test('exports unions whose samples each match one member', () => {
+      // `integer` and `number` members, `string<email>` and `string` members
+      const samples = [{ v: 1, tags: ['a@example.com', 'plain', 2] }, { v: 'a' }, { v: 1.5 }];
+      const node = samples.map((s) => inferSchema(s)).reduce((merged, schema) => mergeSchemas(merged, schema));
+
+      const doc = toAjvSchema(node);
+      expect(doc.properties!['v']).toEqual({ oneOf: [{ type: 'number' }, { type: 'string' }] });
+      expect(doc.properties!['tags'].items).toEqual({ oneOf: [{ type: 'string' }, { type: 'integer' }] });
+
+      const ajv = new Ajv();
+      addFormats(ajv);
+      const validate = ajv.compile(doc);
+      for (const sample of samples) {
+        expect(validate(sample)).toBe(true);
+      }
+    });
+  });
+
+  // ─── Import ──────────────────────────────────────────────────────────
+
+  describe('fromJsonSchema', () => {
+    test('imports types, formats, required and nullable type arrays', () => {
+      const node = fromJsonSchema({
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          email: { type: 'string', format: 'email' },
+          nick: { type: ['string', 'null'] },
+          legacy: { type: 'string', nullable: true },
+        },
+        required: ['id', 'email'],
+      });
+
+      expect(node.type).toBe('object');
+      expect(node.required).toEqual(['id', 'email']);
+      expect(node.properties!['id']).toMatchObject({ type: 'number', format: 'integer', nullable: false });
+      expect(node.properties!['email'].format).toBe('email');
+      expect(node.properties!['nick']).toMatchObject({ type: 'string', nullable: true });
+      expect(node.properties!['legacy'].nullable).toBe(true);
+    });
+
+    test('resolves $ref into $defs and definitions', () => {
+      const node = fromJsonSchema({
+        type: 'object',
+        properties: {
+          home: { $ref: '#/$defs/Address' },
+          work: { $ref: '#/definitions/Address' },
+        },
+        $defs: { Address: { type: 'object', properties: { city: { type: 'string' } } } },
+        definitions: { Address: { type: 'object', properties: { zip: { type: 'string' } } } },
+      });
+
+      expect(Object.keys(node.properties!['home'].properties!)).toEqual(['city']);
+      expect(Object.keys(node.properties!['work'].properties!)).toEqual(['zip']);
+    });
+
+    test('stops at recursive references', () => {
+      const node = fromJsonSchema({
+        $defs: { Node: { type: 'object', properties: { child: { $ref: '#/$defs/Node' } } } },
+        $ref: '#/$defs/Node',
+      });
+
+      expect(node.properties!['child']).toEqual({ type: 'object', nullable: false });
+    });
+
+    test('rejects external references', () => {
+      expect(() => fromJsonSchema({ $ref: 'other.json#/Foo' })).toThrow('Unsupported $ref');
+    });
+
+    test('flattens allOf into one object', () => {
+      const node = fromJsonSchema({
+        allOf: [
+          { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] },
+          { type: 'object', properties: { name: { type: 'string' } } },
+        ],
+      });
+
+      expect(Object.keys(node.properties!)).toEqual(['id', 'name']);
+      expect(node.required).toEqual(['id']);
+    });
+
+    test('turns anyOf with null into a nullable type', () => {
+      const node = fromJsonSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] });
+      expect(node).toMatchObject({ type: 'string', nullable: true });
+    });
+
+    test('imports oneOf as a union', () => {
+      const node = fromJsonSchema({ oneOf: [{ type: 'string' }, { type: 'integer' }] });
+      expect(node.oneOf!.map((m) => m.type)).toEqual(['string', 'number']);
+    });
+
+    test('detects discriminated oneOf from const properties', () => {
+      const node = fromJsonSchema({
+        oneOf: [
+          { type: 'object', properties: { type: { const: 'card' }, last4: { type: 'string' } } },
+          { type: 'object', properties: { type: { const: 'bank' }, iban: { type: 'string' } } },
+        ],
+      });
+
+      expect(node.discriminator).toBe('type');
+      expect(node.oneOf!.map((v) => v.discriminatorValue)).toEqual(['card', 'bank']);
+    });
+
+    test('imports additionalProperties-only objects as maps', () => {
+      const node = fromJsonSchema({ type: 'object', additionalProperties: { type: 'integer' } });
+      expect(node.properties).toBeUndefined();
+      expect(node.additionalProperties!.format).toBe('integer');
+    });
+
+    test('round-trips exported schemas', () => {
+      const original = inferSchema({ id: 1, tags: ['a'], user: { email: 'a@b.com' } });
+      expect(diffSchemas(original, fromJsonSchema(toJsonSchema(original)))).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for Volatile Field Masking
+ */
+
+import { inferSchema } from '../src/core/inferrer';
+import { pruneSchema, pruneData, mergeIgnorePatterns } from '../src/core/mask';
+
+describe('Field Masking', () => {
+  const schema = inferSchema({
+    id: 1,
+    debug: { query: 'SELECT 1', ms: 4 },
+    traceId: 'abc',
+    items: [{ sku: 'A1', _links: { self: '/items/1' }, meta: { traceId: 'x' } }],
+    users: { u_123: { name: 'Alice', traceId: 'y' } },
+  });
+
+  test('returns the schema untouched without patterns', () => {
+    expect(pruneSchema(schema, [])).toBe(schema);
+  });
+
+  test('prunes top-level fields and their required entries', () => {
+    const pruned = pruneSchema(schema, ['debug']);
+    expect(pruned.properties!['debug']).toBeUndefined();
+    expect(pruned.required).not.toContain('debug');
+    expect(pruned.properties!['id']).toBeDefined();
+  });
+
+  test('prunes fields inside array items', () => {
+    const pruned = pruneSchema(schema, ['items[]._links']);
+    const item = pruned.properties!['items'].items!;
+    expect(item.properties!['_links']).toBeUndefined();
+    expect(item.properties!['sku']).toBeDefined();
+  });
+
+  test('** matches at any depth, including the root', () => {
+    const pruned = pruneSchema(schema, ['**.traceId']);
+    expect(pruned.properties!['traceId']).toBeUndefined();
+    expect(pruned.properties!['items'].items!.properties!['meta'].properties!['traceId']).toBeUndefined();
+    expect(pruned.properties!['users'].additionalProperties!.properties!['traceId']).toBeUndefined();
+  });
+
+  test('prunes fields inside discriminated variants via either path form', () => {
+    const payments = inferSchema({
+      payments: [
+        { type: 'card', last4: '4242', debug: 1 },
+        { type: 'bank', iban: 'DE89', debug: 2 },
+      ],
+    });
+
+    const generic = pruneSchema(payments, ['payments[].debug']);
+    const variantSpecific = pruneSchema(payments, ['payments[type=bank].debug']);
+
+    const variants = (s: typeof payments) => s.properties!['payments'].items!.oneOf!;
+    expect(variants(generic).every((v) => !v.properties!['debug'])).toBe(true);
+    expect(variants(variantSpecific)[0].properties!['debug']).toBeDefined();
+    expect(variants(variantSpecific)[1].properties!['debug']).toBeUndefined();
+  });
+
+  test('does not mutate the input schema', () => {
+    pruneSchema(schema, ['debug']);
+    expect(schema.properties!['debug']).toBeDefined();
+  });
+
+  test('pruneData strips ignored fields from samples', () => {
+    const data = {
+      id: 1,
+      debug: { sql: 'x' },
+      items: [{ sku: 'A1', _links: {}, meta: { traceId: 'x' } }],
+      users: { u_123: { name: 'Alice', traceId: 'y' } },
+    };
+
+    expect(pruneData(data, ['debug', 'items[]._links', '**.traceId'])).toEqual({
+      id: 1,
+      items: [{ sku: 'A1', meta: {} }],
+      users: { u_123: { name: 'Alice' } },
+    });
+    expect(pruneData(data, [])).toBe(data);
+  });
+
+  test('pruneData matches map and variant path forms', () => {
+    const data = {
+      users: { u_1: { name: 'Alice', traceId: 'a' } },
+      payments: [
+        { type: 'card', last4: '4242', debug: 1 },
+        { type: 'bank', iban: 'DE89', debug: 2 },
+      ],
+    };
+
+    expect(pruneData(data, ['users{}.traceId', 'payments[type=bank].debug'])).toEqual({
+      users: { u_1: { name: 'Alice' } },
+      payments: [
+        { type: 'card', last4: '4242', debug: 1 },
+        { type: 'bank', iban: 'DE89' },
+      ],
+    });
+  });
+
+  test('mergeIgnorePatterns de-duplicates', () => {
+    expect(mergeIgnorePatterns(['a', 'b'], undefined, ['b', 'c'])).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Tests for the OpenAPI Converter and spec validation
+ */
+
+import * as path from 'path';
+import {
+  loadOpenApi,
+  parseOpenApi,
+  parseOperationKey,
+  findOperation,
+  openApiResponseSchema,
+  toOpenApiPath,
+  generateOpenApi,
+  openApiFromStore,
+  diffOpenApiOperations,
+} from '../src/convert';
+import { inferSchema } from '../src/core/inferrer';
+import { SchemaSnapshot } from '../src/core/types';
+import { formatSpecReport } from '../src/core/reporter';
+import { SchemaGuard } from '../src/guard';
+
+const SPEC_FILE = path.join(__dirname, 'fixtures', 'openapi-users.yaml');
+const SPEC_V2_FILE = path.join(__dirname, 'fixtures', 'openapi-users-v2.yaml');
+
+describe('OpenAPI Converter', () => {
+  const spec = loadOpenApi(SPEC_FILE);
+
+  // ─── Loading ─────────────────────────────────────────────────────────
+
+  describe('Loading', () => {
+    test('parses YAML and JSON documents', () => {
+      expect(spec.info!.title).toBe('Users API');
+      expect(parseOpenApi('{"openapi": "3.1.0", "paths": {}}').openapi).toBe('3.1.0');
+    });
+
+    test('rejects non-OpenAPI 3 documents', () => {
+      expect(() => parseOpenApi('swagger: "2.0"')).toThrow('Unsupported OpenAPI document');
+    });
+  });
+
+  // ─── Operation Lookup ────────────────────────────────────────────────
+
+  describe('Operation lookup', () => {
+    test('parses operation keys', () => {
+      expect(parseOperationKey('GET /users/42?x=1')).toEqual({ method: 'get', path: '/users/42' });
+      expect(() => parseOperationKey('/users')).toThrow('Invalid operation key');
+    });
+
+    test('matches concrete, templated and base-path keys', () => {
+      expect(findOperation(spec, 'GET /users/42').template).toBe('/users/{id}');
+      expect(findOperation(spec, 'GET /users/{userId}').template).toBe('/users/{id}');
+      expect(findOperation(spec, 'GET /users/:id').template).toBe('/users/{id}');
+      expect(findOperation(spec, 'GET /v2/users/42').template).toBe('/users/{id}');
+    });
+
+    test('prefers literal paths over templates', () => {
+      expect(findOperation(spec, 'GET /users/me').template).toBe('/users/me');
+    });
+
+    test('throws for unknown operations', () => {
+      expect(() => findOperation(spec, 'DELETE /users/42')).toThrow('not found');
+    });
+  });
+
+  // ─── Response Schemas ────────────────────────────────────────────────
+
+  describe('Response schemas', () => {
+    test('resolves component refs', () => {
+      const node = openApiResponseSchema(spec, 'GET /users/42');
+
+      expect(node.required).toEqual(['id', 'name']);
+      expect(node.properties!['email']).toMatchObject({ format: 'email', nullable: true });
+      expect(node.properties!['address'].properties!['city'].type).toBe('string');
+    });
+
+    test('falls back to status ranges and resolves response refs', () => {
+      const me = openApiResponseSchema(spec, 'GET /users/me', 201);
+      expect(me.required).toEqual(['id', 'name', 'permissions']);
+
+      const notFound = openApiResponseSchema(spec, 'GET /users/42', 404);
+      expect(notFound.required).toEqual(['title']);
+    });
+
+    test('throws for undocumented status codes', () => {
+      expect(() => openApiResponseSchema(spec, 'GET /users/42', 500)).toThrow('No "500" response');
+    });
+  });
+
+  // ─── Spec Validation ─────────────────────────────────────────────────
+
+  describe('SchemaGuard.validateOpenApi', () => {
+    const guard = new SchemaGuard({ store: path.join(__dirname, '.test-schemas') });
+
+    test('accepts responses that follow the spec', () => {
+      const report = guard.validateOpenApi(SPEC_FILE, 'GET /users/42', { id: 42, name: 'Alice', email: null });
+      expect(report.changes).toHaveLength(0);
+      expect(report.compatibilityScore).toBe(100);
+    });
+
+    test('reports spec-vs-reality drift', () => {
+      const report = guard.validateOpenApi(spec, 'GET /users/42', { id: '42', active: true });
+
+      expect(report.key).toBe('GET /users/42');
+      expect(report.hasBreakingChanges).toBe(true);
+      expect(report.changes.find((c) => c.path === 'id')!.type).toBe('type_changed');
+      expect(report.changes.find((c) => c.path === 'name')!.type).toBe('field_removed');
+      expect(report.changes.find((c) => c.path === 'active')!.type).toBe('field_added');
+    });
+
+    test('reports values outside a declared enum', () => {
+      const statusSpec = parseOpenApi(
+        JSON.stringify({
+          openapi: '3.1.0',
+          paths: {
+            '/accounts/{id}': {
+              get: {
+                responses: {
+                  '200': {
+                    description: 'OK',
+                    content: {
+                      'application/json': {
+                        schema: {
+                          type: 'object',
+                          properties: { status: { type: 'string', enum: ['active', 'suspended'] } },
+                          required: ['status'],
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        })
+      );
+
+      expect(guard.validateOpenApi(statusSpec, 'GET /accounts/1', { status: 'active' }).changes).toEqual([]);
+
+      const report = guard.validateOpenApi(statusSpec, 'GET /accounts/1', { status: 'archived' });
+      expect(report.changes.map((c) => `${c.type} ${c.path}`)).toEqual(['enum_value_added status']);
+    });
+  });
+
+  // ─── Generation ──────────────────────────────────────────────────────
+
+  describe('Generation', () => {
+    function snapshot(key: string, data: unknown, extra: Partial<SchemaSnapshot> = {}): SchemaSnapshot {
+      return {
+        key,
+        schema: inferSchema(data),
+        timestamp: '2024-06-15T10:00:00Z',
+        version: 1,
+        sampleCount: 4,
+        ...extra,
+      };
+    }
+
+    test('turns key paths into templates with path parameters', () => {
+      const { template, parameters } = toOpenApiPath('/api/v2/users/:id/posts/{postId}?page=1');
+
+      expect(template).toBe('/api/v2/users/{id}/posts/{postId}');
+      expect(parameters.map((p) => p.name)).toEqual(['id', 'postId']);
+      expect(parameters[0]).toMatchObject({ in: 'path', required: true });
+    });
+
+    test('emits an OpenAPI 3.1 document with response schemas', () => {
+      const doc = generateOpenApi(
+        [
+          snapshot('GET /api/v2/users/:id', { id: 1, email: 'a@b.com' }),
+          snapshot('DELETE /api/v2/users/:id', { ok: true }),
+          snapshot('user-service', { id: 1 }),
+        ],
+        { title: 'Users' }
+      );
+
+      expect(doc.openapi).toBe('3.1.0');
+      expect(doc.info).toEqual({ title: 'Users', version: '1.0.0' });
+      expect(Object.keys(doc.paths!)).toEqual(['/api/v2/users/{id}']);
+
+      const get = doc.paths!['/api/v2/users/{id}'].get;
+      expect(get.operationId).toBe('getApiV2UsersById');
+      expect(get.parameters![0].name).toBe('id');
+      const schema = get.responses!['200'].content!['application/json'].schema!;
+      expect(schema.properties!['email']).toEqual({ type: 'string', format: 'email' });
+      expect(doc.paths!['/api/v2/users/{id}'].delete).toBeDefined();
+    });
+
+    test('maps request snapshots to request bodies', () => {
+      const doc = generateOpenApi([snapshot('POST /users', { name: 'Al' }, { direction: 'request' })]);
+      const post = doc.paths!['/users'].post;
+
+      expect(post.requestBody!.content!['application/json'].schema!.required).toEqual(['name']);
+      expect(post.responses).toBeUndefined();
+    });
+
+    test('round-trips through validation', () => {
+      const doc = generateOpenApi([snapshot('GET /users/:id', { id: 1, name: 'Al' })]);
+      expect(openApiResponseSchema(doc, 'GET /users/42').required).toEqual(['id', 'name']);
+    });
+
+    test('reads the latest snapshot of every key in a store', async () => {
+      const guard = new SchemaGuard({ store: path.join(__dirname, '.test-schemas') });
+      await guard.snapshot('GET /orders', [{ id: 1 }]);
+      const doc = await openApiFromStore(guard.getStore());
+
+      expect(doc.paths!['/orders'].get.responses!['200'].content!['application/json'].schema!.type).toBe(
+        'array'
+      );
+      await guard.getStore().delete('GET /orders');
+    });
+  });
+
+  // ─── Spec Diff ───────────────────────────────────────────────────────
+
+  describe('Spec diff', () => {
+    const diffs = diffOpenApiOperations(loadOpenApi(SPEC_FILE), loadOpenApi(SPEC_V2_FILE));
+    const changesOf = (key: string) => diffs.find((d) => d.key === key)!.changes;
+
+    test('matches operations across renamed path parameters', () => {
+      expect(diffs.map((d) => d.key)).toEqual([
+        'DELETE /users/{userId}',
+        'GET /users/{userId}',
+        'GET /users/me',
+        'POST /users',
+      ]);
+    });
+
+    test('reports added and removed operations', () => {
+      expect(changesOf('DELETE /users/{userId}')).toEqual([
+        expect.objectContaining({ type: 'operation_added', severity: 'info' }),
+      ]);
+      expect(changesOf('GET /users/me')).toEqual([
+        expect.objectContaining({ type: 'operation_removed', severity: 'breaking' }),
+      ]);
+    });
+
+    test('reports status codes and response schema changes', () => {
+      const changes = changesOf('GET /users/{userId}');
+
+      expect(changes).toContainEqual(
+        expect.objectContaining({ type: 'status_removed', path: 'responses.404', severity: 'warning' })
+      );
+      expect(changes).toContainEqual(
+        expect.objectContaining({ type: 'status_added', path: 'responses.429', severity: 'info' })
+      );
+      expect(changes).toContainEqual(
+        expect.objectContaining({ type: 'field_removed', path: 'responses.200.name', severity: 'breaking' })
+      );
+      expect(changes).toContainEqual(expect.objectContaining({ type: 'field_added', path: 'responses.200.avatar' }));
+    });
+
+    test('treats removed success responses as breaking', () => {
+      const before = parseOpenApi(
+        JSON.stringify({ openapi: '3.1.0', paths: { '/a': { get: { responses: { '200': {}, '400': {} } } } } })
+      );
+      const after = parseOpenApi(
+        JSON.stringify({ openapi: '3.1.0', paths: { '/a': { get: { responses: { '201': {}, '400': {} } } } } })
+      );
+      const [diff] = diffOpenApiOperations(before, after);
+
+      expect(diff.changes).toContainEqual(expect.objectContaining({ type: 'status_removed', severity: 'breaking' }));
+    });
+
+    test('reports enum values added to or removed from request and response bodies', () => {
+      const enumSpec = (values: string[]) => {
+        const schema = { type: 'object', properties: { status: { type: 'string', enum: values } } };
+        const content = { 'application/json': { schema } };
+        return parseOpenApi(
+          JSON.stringify({
+            openapi: '3.1.0',
+            paths: { '/a': { post: { requestBody: { content }, responses: { '200': { description: 'OK', content } } } } },
+          })
+        );
+      };
+      const changesBetween = (before: string[], after: string[]) =>
+        diffOpenApiOperations(enumSpec(before), enumSpec(after))[0].changes.map((c) => `${c.type} ${c.path}`);
+
+      expect(changesBetween(['a', 'b'], ['a', 'b', 'c'])).toEqual([
+        'enum_value_added requestBody.status',
+        'enum_value_added responses.200.status',
+      ]);
+      expect(changesBetween(['a', 'b'], ['a'])).toEqual([
+        'enum_value_removed requestBody.status',
+        'enum_value_removed responses.200.status',
+      ]);
+    });
+
+    test('keeps optional fields of spec bodies significant', () => {
+      const bodySpec = (required: string[], props: string[]) => {
+        const properties = Object.fromEntries(props.map((p) => [p, { type: 'string' }]));
+        const content = { 'application/json': { schema: { type: 'object', properties, required } } };
+        return parseOpenApi(
+          JSON.stringify({
+            openapi: '3.1.0',
+            paths: { '/a': { post: { requestBody: { content }, responses: { '200': { description: 'OK', content } } } } },
+          })
+        );
+      };
+      const [diff] = diffOpenApiOperations(bodySpec([], ['a', 'b']), bodySpec(['a'], ['a']));
+
+      expect(diff.changes.map((c) => `${c.severity} ${c.type} ${c.path}`)).toEqual(
+        expect.arrayContaining(['breaking required_changed requestBody.a', 'breaking field_removed responses.200.b'])
+      );
+    });
+
+    test('diffs request bodies with request severities', () => {
+      const changes = changesOf('POST /users');
+      const email = changes.find((c) => c.path === 'requestBody.email');
+
+      expect(email).toMatchObject({ type: 'field_added', severity: 'breaking' });
+      expect(changes.some((c) => c.path.startsWith('responses.201'))).toBe(true);
+    });
+  });
+
+  describe('SchemaGuard.diffOpenApi', () => {
+    const guard = new SchemaGuard({ store: path.join(__dirname, '.test-schemas') });
+
+    test('builds one report per operation with an overall summary', () => {
+      const report = guard.diffOpenApi(SPEC_FILE, SPEC_V2_FILE);
+
+      expect(report.previousVersion).toBe('1.0.0');
+      expect(report.currentVersion).toBe('2.0.0');
+      expect(report.operations).toHaveLength(4);
+      expect(report.hasBreakingChanges).toBe(true);
+      expect(report.summary.total).toBe(report.operations.reduce((n, op) => n + op.changes.length, 0));
+      expect(report.compatibilityScore).toBe(Math.min(...report.operations.map((op) => op.compatibilityScore)));
+    });
+
+    test('reports nothing for identical documents', () => {
+      const report = guard.diffOpenApi(SPEC_FILE, SPEC_FILE);
+
+      expect(report.summary.total).toBe(0);
+      expect(report.compatibilityScore).toBe(100);
+    });
+
+    test('applies severity rules per operation', () => {
+      const lenient = new SchemaGuard({
+        store: path.join(__dirname, '.test-schemas'),
+        rules: [{ key: 'GET /users/me', type: 'operation_removed', severity: 'ignore' }],
+      });
+      const report = lenient.diffOpenApi(SPEC_FILE, SPEC_V2_FILE);
+
+      expect(report.operations.find((op) => op.key === 'GET /users/me')!.changes).toHaveLength(0);
+    });
+
+    test('formats changed operations as markdown sections', () => {
+      const markdown = formatSpecReport(guard.diffOpenApi(SPEC_FILE, SPEC_V2_FILE), 'markdown');
+
+      expect(markdown).toContain('**Version:** 1.0.0 → 2.0.0');
+      expect(markdown).toContain('## GET /users/me');
+      expect(markdown).toContain('**responses.200.name**');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for the Protobuf parser and converter
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseProtobuf, loadProtoType } from '../src/formats/protobuf';
+import { fromProto } from '../src/convert';
+import { inferSchema } from '../src/core/inferrer';
+import { diffSchemas } from '../src/core/differ';
+
+const PROTO_FILE = path.join(__dirname, 'fixtures', 'user.proto');
+const PROTO_V2_FILE = path.join(__dirname, 'fixtures', 'user-v2.proto');
+const PAYLOAD_FILE = path.join(__dirname, 'fixtures', 'user.bin');
+
+describe('Protobuf', () => {
+  // ─── Decoding ────────────────────────────────────────────────────────
+
+  describe('parseProtobuf', () => {
+    const user = parseProtobuf(fs.readFileSync(PAYLOAD_FILE), PROTO_FILE, 'accounts.v1.User') as Record<
+      string,
+      unknown
+    >;
+
+    test('decodes with the proto3 JSON mapping', () => {
+      expect(user).toMatchObject({
+        id: '42',
+        display_name: 'Alice',
+        active: true,
+        balance: 12.5,
+        role: 'ROLE_ADMIN',
+        tags: ['beta'],
+        address: { city: 'Berlin', postal_code: '10115' },
+        quotas: { storage: 10 },
+        phone: '+49301234567',
+      });
+    });
+
+    test('fills unset fields with defaults, leaving oneof members out', () => {
+      expect(user.avatar).toBe('');
+      expect('slack_handle' in user).toBe(false);
+
+      const empty = parseProtobuf(new Uint8Array(), PROTO_FILE, 'User') as Record<string, unknown>;
+      expect(empty).toMatchObject({ id: '0', email: '', address: null, tags: [], role: 'ROLE_UNSPECIFIED' });
+    });
+
+    test('rejects unknown message types and malformed payloads', () => {
+      expect(() => loadProtoType(PROTO_FILE, 'Order')).toThrow('Message type "Order" not found');
+      expect(() => parseProtobuf(Uint8Array.from([0x12, 0x05, 0x41]), PROTO_FILE, 'User')).toThrow(
+        'Failed to decode User message'
+      );
+    });
+  });
+
+  // ─── Conversion ──────────────────────────────────────────────────────
+
+  describe('fromProto', () => {
+    const schema = fromProto(PROTO_FILE, 'accounts.v1.User');
+
+    test('maps fields to schema nodes', () => {
+      const props = schema.properties!;
+
+      expect(props.id).toEqual({ type: 'string', nullable: false });
+      expect(props.balance).toEqual({ type: 'number', nullable: false });
+      expect(props.quotas.additionalProperties).toEqual({ type: 'number', nullable: false, format: 'integer' });
+      expect(props.role.enum).toEqual(['ROLE_UNSPECIFIED', 'ROLE_ADMIN', 'ROLE_MEMBER']);
+      expect(props.tags.items!.type).toBe('string');
+      expect(props.address).toMatchObject({ type: 'object', nullable: true, required: ['city', 'postal_code'] });
+    });
+
+    test('only requires fields outside a oneof', () => {
+      expect(schema.required).toContain('email');
+      expect(schema.required).not.toContain('phone');
+      expect(schema.required).not.toContain('slack_handle');
+    });
+
+    test('accepts payloads decoded with the same definition', () => {
+      const decoded = inferSchema(parseProtobuf(fs.readFileSync(PAYLOAD_FILE), PROTO_FILE, 'User'));
+      const changes = diffSchemas(schema, decoded, '', { declared: true });
+
+      expect(changes.filter((c) => c.severity !== 'info')).toEqual([]);
+    });
+
+    test('diffs two revisions of a definition', () => {
+      const changes = diffSchemas(schema, fromProto(PROTO_V2_FILE, 'accounts.v1.User'));
+      const summary = changes.map((c) => `${c.type} ${c.path}`);
+
+      expect(summary).toContain('type_changed id');
+      expect(summary).toContain('field_removed email');
+      expect(summary).toContain('field_added billing_address');
+    });
+  });
+});
@@ -56,6 +56,23 @@ describe('Report Generator', () => {
       expect(output).toContain('INFO');
       expect(output).toContain('Summary');
     });
+
+    test('shows the confidence of heuristic matches', () => {
+      const report = createReport([
+        {
+          type: 'field_renamed',
+          severity: 'warning',
+          path: 'zip',
+          message: 'Field likely renamed: "zip" → "postalCode"',
+          before: 'zip',
+          after: 'postalCode',
+          confidence: 0.92,
+        },
+      ]);
+
+      expect(formatReport(report, 'console')).toContain('likely renamed: "zip" → "postalCode" (92%)');
+      expect(formatReport(report, 'markdown')).toContain('(92%)');
+    });
   });
 
   // ─── JSON Format ──────────────────────────────────────────────────────
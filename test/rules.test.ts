@@ -0,0 +1,142 @@
+/**
+ * Tests for the Severity Rules Engine
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { applySeverityRules, loadRulesFile, matchKey, matchPath } from '../src/core/rules';
+import { DriftChange } from '../src/core/types';
+
+const TMP_DIR = path.join(__dirname, '.tmp-rules');
+
+afterAll(() => {
+  if (fs.existsSync(TMP_DIR)) {
+    fs.rmSync(TMP_DIR, { recursive: true, force: true });
+  }
+});
+
+describe('Severity Rules', () => {
+  // ─── Glob Matching ────────────────────────────────────────────────────
+
+  describe('Key globs', () => {
+    test('matches wildcards across the whole key', () => {
+      expect(matchKey('GET /internal/*', 'GET /internal/users/1')).toBe(true);
+      expect(matchKey('GET /internal/*', 'POST /internal/users')).toBe(false);
+      expect(matchKey('* /health', 'GET /health')).toBe(true);
+    });
+
+    test('treats other characters literally', () => {
+      expect(matchKey('GET /users/:id', 'GET /users/:id')).toBe(true);
+      expect(matchKey('GET /users.json', 'GET /usersXjson')).toBe(false);
+    });
+  });
+
+  describe('Path globs', () => {
+    test('matches a path and everything below it', () => {
+      expect(matchPath('meta.debug', 'meta.debug')).toBe(true);
+      expect(matchPath('meta.debug', 'meta.debug.trace.id')).toBe(true);
+      expect(matchPath('meta.debug', 'meta.debugger')).toBe(false);
+    });
+
+    test('* stays within one segment, ** crosses segments', () => {
+      expect(matchPath('*.id', 'user.id')).toBe(true);
+      expect(matchPath('*.id', 'user.profile.id')).toBe(false);
+      expect(matchPath('**.id', 'user.profile.id')).toBe(true);
+    });
+
+    test('understands array segments', () => {
+      expect(matchPath('items[].price', 'items[].price')).toBe(true);
+      expect(matchPath('items', 'items[].price')).toBe(true);
+    });
+
+    test('treats other characters literally', () => {
+      expect(matchPath('meta?', 'met')).toBe(false);
+      expect(matchPath('meta?', 'meta?')).toBe(true);
+      expect(matchPath('payments[type=a+b]', 'payments[type=a+b].id')).toBe(true);
+      expect(matchPath('payments[type=a+b]', 'payments[type=aab].id')).toBe(false);
+    });
+  });
+
+  // ─── Rule Application ─────────────────────────────────────────────────
+
+  describe('applySeverityRules', () => {
+    const changes: DriftChange[] = [
+      { type: 'field_removed', severity: 'breaking', path: 'name', message: '' },
+      { type: 'field_added', severity: 'info', path: 'meta.debug.trace', message: '' },
+      { type: 'type_changed', severity: 'breaking', path: 'meta.debug.level', message: '' },
+    ];
+
+    test('overrides severity by drift type and key', () => {
+      const result = applySeverityRules(
+        changes,
+        [{ key: 'GET /internal/*', type: 'field_removed', severity: 'warning' }],
+        'GET /internal/users'
+      );
+      expect(result[0].severity).toBe('warning');
+
+      const untouched = applySeverityRules(
+        changes,
+        [{ key: 'GET /internal/*', type: 'field_removed', severity: 'warning' }],
+        'GET /public/users'
+      );
+      expect(untouched[0].severity).toBe('breaking');
+    });
+
+    test('overrides severity by path', () => {
+      const result = applySeverityRules(changes, [{ path: 'meta.debug', severity: 'info' }], 'k');
+      expect(result.map((c) => c.severity)).toEqual(['breaking', 'info', 'info']);
+    });
+
+    test('suppresses changes with ignore', () => {
+      const result = applySeverityRules(changes, [{ path: 'meta.debug', severity: 'ignore' }], 'k');
+      expect(result).toHaveLength(1);
+      expect(result[0].path).toBe('name');
+    });
+
+    test('last matching rule wins', () => {
+      const result = applySeverityRules(
+        changes,
+        [
+          { path: 'meta', severity: 'ignore' },
+          { path: 'meta.debug.level', severity: 'warning' },
+        ],
+        'k'
+      );
+      expect(result.map((c) => c.path)).toEqual(['name', 'meta.debug.level']);
+      expect(result[1].severity).toBe('warning');
+    });
+
+    test('accepts a list of drift types', () => {
+      const result = applySeverityRules(
+        changes,
+        [{ type: ['field_added', 'type_changed'], severity: 'warning' }],
+        'k'
+      );
+      expect(result.map((c) => c.severity)).toEqual(['breaking', 'warning', 'warning']);
+    });
+  });
+
+  // ─── Rules File ───────────────────────────────────────────────────────
+
+  describe('loadRulesFile', () => {
+    beforeAll(() => fs.mkdirSync(TMP_DIR, { recursive: true }));
+
+    test('loads a rules object', () => {
+      const file = path.join(TMP_DIR, 'rules.json');
+      fs.writeFileSync(file, JSON.stringify({ rules: [{ path: 'meta', severity: 'info' }] }));
+      expect(loadRulesFile(file)).toEqual([{ path: 'meta', severity: 'info' }]);
+    });
+
+    test('loads a bare array', () => {
+      const file = path.join(TMP_DIR, 'array.json');
+      fs.writeFileSync(file, JSON.stringify([{ type: 'field_added', severity: 'ignore' }]));
+      expect(loadRulesFile(file)).toHaveLength(1);
+    });
+
+    test('rejects invalid severities', () => {
+      const file = path.join(TMP_DIR, 'bad.json');
+      fs.writeFileSync(file, JSON.stringify([{ path: 'meta', severity: 'fatal' }]));
+      expect(() => loadRulesFile(file)).toThrow('invalid severity');
+    });
+  });
+});
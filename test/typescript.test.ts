@@ -0,0 +1,125 @@
+/**
+ * Tests for the TypeScript Generator
+ */
+
+import { inferSchema, mergeSchemas } from '../src/core/inferrer';
+import { typeNameForKey, toTypeScript, generateTypeScript } from '../src/convert';
+import { SchemaSnapshot } from '../src/core/types';
+
+describe('TypeScript Generator', () => {
+  // ─── Naming ──────────────────────────────────────────────────────────
+
+  describe('typeNameForKey', () => {
+    test('derives PascalCase names from keys', () => {
+      expect(typeNameForKey('GET /api/v2/users/:id')).toBe('GetApiV2UsersByIdResponse');
+      expect(typeNameForKey('GET /users/{userId}/posts?page=2')).toBe('GetUsersByUserIdPostsResponse');
+      expect(typeNameForKey('user-service')).toBe('UserServiceResponse');
+    });
+
+    test('suffixes request bodies with Request', () => {
+      expect(typeNameForKey('POST /users', 'request')).toBe('PostUsersRequest');
+    });
+  });
+
+  // ─── Declarations ────────────────────────────────────────────────────
+
+  describe('toTypeScript', () => {
+    test('emits interfaces with optional and nullable fields', () => {
+      const node = mergeSchemas(
+        inferSchema({ id: 1, name: 'Alice', nick: 'al' }),
+        inferSchema({ id: 2, name: null })
+      );
+      const ts = toTypeScript(node, 'User');
+
+      expect(ts).toContain('export interface User {');
+      expect(ts).toContain('  id: number;');
+      expect(ts).toContain('  name: string | null;');
+      expect(ts).toContain('  nick?: string;');
+    });
+
+    test('declares nested objects and array items as named interfaces', () => {
+      const ts = toTypeScript(inferSchema({ address: { city: 'X' }, orders: [{ total: 9.5 }] }), 'User');
+
+      expect(ts).toContain('  address: UserAddress;');
+      expect(ts).toContain('  orders: UserOrdersItem[];');
+      expect(ts).toContain('export interface UserAddress {');
+      expect(ts.indexOf('interface User {')).toBeLessThan(ts.indexOf('interface UserAddress {'));
+    });
+
+    test('emits unions, maps and quoted property names', () => {
+      const node = mergeSchemas(
+        inferSchema({ v: 'a', 'content-type': 'x', users: { u_123: { n: 1 }, u_456: { n: 2 } } }),
+        inferSchema({ v: 1, 'content-type': 'y', users: {} })
+      );
+      const ts = toTypeScript(node, 'Payload');
+
+      expect(ts).toContain('  v: string | number;');
+      expect(ts).toContain("  'content-type': string;");
+      expect(ts).toContain('  users: Record<string, PayloadUsersValue>;');
+    });
+
+    test('merges union members of the same type', () => {
+      // `string<email>` and `string` members
+      const ts = toTypeScript(inferSchema({ tags: ['a@example.com', 'plain', 2] }), 'Payload');
+
+      expect(ts).toContain('  tags: Array<string | number>;');
+    });
+
+    test('narrows discriminated variants to literal types', () => {
+      const ts = toTypeScript(
+        inferSchema({
+          payments: [
+            { type: 'card', last4: '4242' },
+            { type: 'bank', iban: 'DE00' },
+          ],
+        }),
+        'Order'
+      );
+
+      expect(ts).toContain('  payments: Array<OrderPaymentsItemCard | OrderPaymentsItemBank>;');
+      expect(ts).toContain("  type: 'card';");
+    });
+
+    test('comments format hints, or brands them on request', () => {
+      const node = inferSchema({ email: 'a@b.com' });
+
+      expect(toTypeScript(node, 'User')).toContain('  /** Format: email */\n  email: string;');
+
+      const branded = toTypeScript(node, 'User', { brandFormats: true });
+      expect(branded).toContain('export type Formatted<T, F extends string>');
+      expect(branded).toContain("  email: Formatted<string, 'email'>;");
+    });
+
+    test('uses type aliases for non-object roots', () => {
+      expect(toTypeScript(inferSchema([{ id: 1 }]), 'Users')).toContain('export type Users = UsersItem[];');
+    });
+  });
+
+  // ─── Modules ─────────────────────────────────────────────────────────
+
+  describe('generateTypeScript', () => {
+    function snapshot(key: string, data: unknown, version = 1): SchemaSnapshot {
+      return { key, schema: inferSchema(data), timestamp: new Date().toISOString(), version, sampleCount: 1 };
+    }
+
+    test('emits one root type per key, sorted and labelled', () => {
+      const ts = generateTypeScript([snapshot('GET /users', [{ id: 1 }]), snapshot('GET /orders', { id: 1 }, 3)]);
+
+      expect(ts.startsWith('// Generated by api-schema-differentiator')).toBe(true);
+      expect(ts).toContain('/** GET /orders (v3) */\nexport interface GetOrdersResponse {');
+      expect(ts.indexOf('GetOrdersResponse')).toBeLessThan(ts.indexOf('GetUsersResponse'));
+    });
+
+    test('is deterministic across regenerations', () => {
+      const snapshots = [snapshot('GET /users', { id: 1 }), snapshot('GET /users/:id', { id: 1 })];
+      expect(generateTypeScript(snapshots)).toBe(generateTypeScript([...snapshots].reverse()));
+    });
+
+    test('keeps colliding names unique', () => {
+      const ts = generateTypeScript([snapshot('GET /users', { id: 1 }), snapshot('GET users', { id: 1 })]);
+
+      expect(ts).toContain('export interface GetUsersResponse {');
+      expect(ts).toContain('export interface GetUsersResponse2 {');
+    });
+  });
+});
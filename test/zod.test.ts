@@ -0,0 +1,100 @@
+/**
+ * Tests for the Zod Generator
+ */
+
+import { z } from 'zod';
+import { inferSchema, mergeSchemas } from '../src/core/inferrer';
+import { toZod, generateZod } from '../src/convert';
+import { SchemaSnapshot } from '../src/core/types';
+
+describe('Zod Generator', () => {
+  // ─── Expressions ─────────────────────────────────────────────────────
+
+  describe('toZod', () => {
+    test('maps format hints to refinements', () => {
+      const zod = toZod(
+        inferSchema({
+          id: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+          email: 'a@b.com',
+          createdAt: '2024-01-01T10:00:00Z',
+          site: 'https://example.com',
+          ip: '10.0.0.1',
+          count: 3,
+        })
+      );
+
+      expect(zod).toContain('id: z.string().uuid(),');
+      expect(zod).toContain('email: z.string().email(),');
+      expect(zod).toContain('createdAt: z.string().datetime({ local: true, offset: true }),');
+      expect(zod).toContain('site: z.string().url(),');
+      expect(zod).toContain("ip: z.string().ip({ version: 'v4' }),");
+      expect(zod).toContain('count: z.number().int(),');
+    });
+
+    test('honours nullable and required', () => {
+      const node = mergeSchemas(
+        inferSchema({ name: 'Alice', nick: 'al' }),
+        inferSchema({ name: null })
+      );
+      const zod = toZod(node);
+
+      expect(zod).toContain('name: z.string().nullable(),');
+      expect(zod).toContain('nick: z.string().optional(),');
+    });
+
+    test('emits nested objects, arrays and maps', () => {
+      const zod = toZod(inferSchema({ tags: ['a'], users: { u_123: { n: true }, u_456: { n: false } } }));
+
+      expect(zod).toContain('tags: z.array(z.string()),');
+      expect(zod).toContain('users: z.record(z.string(), z.object({\n    n: z.boolean(),\n  })),');
+    });
+
+    test('emits unions and discriminated unions', () => {
+      const union = toZod(mergeSchemas(inferSchema({ v: 'a' }), inferSchema({ v: true })));
+      expect(union).toContain('v: z.union([z.string(), z.boolean()]),');
+
+      const discriminated = toZod(
+        inferSchema([
+          { type: 'card', last4: '4242' },
+          { type: 'bank', iban: 'DE00' },
+        ])
+      );
+      expect(discriminated).toMatch(/^z\.array\(z\.discriminatedUnion\('type', \[/);
+      expect(discriminated).toContain("type: z.literal('card'),");
+    });
+
+    test('generates schemas that accept the samples they came from', () => {
+      const samples = [
+        { id: 1, at: '2024-01-01T10:00:00Z', v: 1, tags: ['a@example.com', 'plain', 2] },
+        { id: 2, at: '2024-01-01T10:00:00', v: 'a', tags: [] },
+        { id: 3, at: '2024-01-01T10:00:00.5+02:00', v: 1.5, tags: ['b'] },
+      ];
+      const node = samples.map((s) => inferSchema(s)).reduce((merged, schema) => mergeSchemas(merged, schema));
+      const schema = new Function('z', `return ${toZod(node)};`)(z) as z.ZodTypeAny;
+
+      for (const sample of samples) {
+        expect(schema.safeParse(sample).success).toBe(true);
+      }
+      expect(schema.safeParse({ ...samples[0], at: 'yesterday' }).success).toBe(false);
+    });
+  });
+
+  // ─── Modules ─────────────────────────────────────────────────────────
+
+  describe('generateZod', () => {
+    test('exports a schema and inferred type per key', () => {
+      const snapshot: SchemaSnapshot = {
+        key: 'GET /users/:id',
+        schema: inferSchema({ id: 1 }),
+        timestamp: '2024-06-15T10:00:00Z',
+        version: 2,
+        sampleCount: 1,
+      };
+      const source = generateZod([snapshot]);
+
+      expect(source).toContain("import { z } from 'zod';");
+      expect(source).toContain('export const GetUsersByIdResponseSchema = z.object({');
+      expect(source).toContain('export type GetUsersByIdResponse = z.infer<typeof GetUsersByIdResponseSchema>;');
+    });
+  });
+});